@@ -0,0 +1,618 @@
+// app/admin/merchandising/page.tsx
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import Link from "next/link";
+import {
+  ArrowLeft,
+  Trash2,
+  Pencil,
+  Plus,
+  X,
+  Loader2,
+  AlertCircle,
+} from "lucide-react";
+import CollectionSelector from "@/app/components/CollectionSelector";
+import { adminFetch } from "@/app/lib/admin-fetch";
+import type { Collection } from "@/app/lib/search-types";
+import type {
+  BoostField,
+  MerchandisingRule,
+  TriggerType,
+} from "@/app/lib/merchandising";
+
+type RuleRow = MerchandisingRule & { active: boolean };
+
+interface RuleForm {
+  id: string;
+  name: string;
+  enabled: boolean;
+  triggerType: TriggerType;
+  triggerValue: string;
+  pins: Array<{ sku: string; position: string }>;
+  hide: string;
+  boosts: Array<{ field: BoostField; value: string; weight: string }>;
+  startsAt: string; // datetime-local value
+  endsAt: string;
+}
+
+const EMPTY_FORM: RuleForm = {
+  id: "",
+  name: "",
+  enabled: true,
+  triggerType: "query_exact",
+  triggerValue: "",
+  pins: [],
+  hide: "",
+  boosts: [],
+  startsAt: "",
+  endsAt: "",
+};
+
+const TRIGGER_LABELS: Record<TriggerType, string> = {
+  query_exact: "Query is exactly",
+  query_contains: "Query contains",
+  category: "Detected category is",
+};
+
+const INPUT_CLASS =
+  "px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+export default function MerchandisingAdminPage() {
+  const [collections, setCollections] = useState<Collection[]>([]);
+  const [selectedCollection, setSelectedCollection] =
+    useState<Collection | null>(null);
+  const [rules, setRules] = useState<RuleRow[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState("");
+  const [notice, setNotice] = useState("");
+  const [form, setForm] = useState<RuleForm>(EMPTY_FORM);
+
+  const collection = selectedCollection?.id;
+
+  // Rules are per collection, so the federated "all" entry is left out
+  useEffect(() => {
+    fetch("/api/collections")
+      .then((res) => res.json())
+      .then((data) => {
+        const concrete = (data.collections || []).filter(
+          (c: Collection) => c.id !== "all"
+        );
+        setCollections(concrete);
+        if (concrete.length > 0) setSelectedCollection(concrete[0]);
+      })
+      .catch(() => setError("Failed to load collections"));
+  }, []);
+
+  const loadRules = useCallback(async () => {
+    if (!collection) return;
+    setLoading(true);
+    setError("");
+    try {
+      const response = await fetch(
+        `/api/merchandising?collection=${encodeURIComponent(collection)}`
+      );
+      const data = await response.json();
+      if (!data.success) throw new Error(data.error);
+      setRules(data.rules);
+    } catch (err: any) {
+      setError(err.message || "Failed to load rules");
+      setRules([]);
+    } finally {
+      setLoading(false);
+    }
+  }, [collection]);
+
+  useEffect(() => {
+    loadRules();
+  }, [loadRules]);
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!collection) return;
+
+    setSaving(true);
+    setError("");
+    setNotice("");
+    try {
+      const response = await adminFetch("/api/merchandising", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          id: form.id || undefined,
+          name: form.name,
+          collection,
+          enabled: form.enabled,
+          trigger: { type: form.triggerType, value: form.triggerValue },
+          pins: form.pins
+            .filter((pin) => pin.sku.trim())
+            .map((pin) => ({ sku: pin.sku, position: Number(pin.position) })),
+          hide: form.hide.split(/[\s,]+/).filter(Boolean),
+          boosts: form.boosts
+            .filter((boost) => boost.value.trim())
+            .map((boost) => ({ ...boost, weight: Number(boost.weight) })),
+          startsAt: form.startsAt
+            ? new Date(form.startsAt).toISOString()
+            : undefined,
+          endsAt: form.endsAt ? new Date(form.endsAt).toISOString() : undefined,
+        }),
+      });
+      const data = await response.json();
+      if (!data.success) throw new Error(data.error);
+      setNotice(
+        data.override === "failed"
+          ? `Saved "${data.rule.name}", but the Typesense override could not be updated; results are still adjusted after ranking`
+          : `Saved "${data.rule.name}"`
+      );
+      setForm(EMPTY_FORM);
+      await loadRules();
+    } catch (err: any) {
+      setError(err.message || "Failed to save rule");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (rule: RuleRow) => {
+    if (!window.confirm(`Delete rule "${rule.name}"?`)) return;
+
+    setError("");
+    setNotice("");
+    try {
+      const response = await adminFetch(
+        `/api/merchandising?id=${encodeURIComponent(rule.id)}`,
+        { method: "DELETE" }
+      );
+      const data = await response.json();
+      if (!data.success) throw new Error(data.error);
+      setNotice(`Deleted "${rule.name}"`);
+      await loadRules();
+    } catch (err: any) {
+      setError(err.message || "Failed to delete rule");
+    }
+  };
+
+  const editRule = (rule: RuleRow) => {
+    setForm({
+      id: rule.id,
+      name: rule.name,
+      enabled: rule.enabled,
+      triggerType: rule.trigger.type,
+      triggerValue: rule.trigger.value,
+      pins: rule.pins.map((pin) => ({
+        sku: pin.sku,
+        position: String(pin.position),
+      })),
+      hide: rule.hide.join(", "),
+      boosts: rule.boosts.map((boost) => ({
+        ...boost,
+        weight: String(boost.weight),
+      })),
+      startsAt: toLocalInput(rule.startsAt),
+      endsAt: toLocalInput(rule.endsAt),
+    });
+    window.scrollTo({ top: 0, behavior: "smooth" });
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <div className="bg-white shadow-sm border-b">
+        <div className="max-w-5xl mx-auto px-4 py-4 flex items-center gap-4">
+          <Link href="/" className="text-gray-500 hover:text-gray-700">
+            <ArrowLeft size={20} />
+          </Link>
+          <h1 className="text-2xl font-bold text-gray-900">Merchandising</h1>
+          {selectedCollection && (
+            <CollectionSelector
+              collections={collections}
+              selected={selectedCollection}
+              onChange={setSelectedCollection}
+            />
+          )}
+        </div>
+      </div>
+
+      <div className="max-w-5xl mx-auto px-4 py-6">
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-6 flex items-center gap-2">
+            <AlertCircle className="text-red-600" size={20} />
+            <p className="text-red-700">{error}</p>
+          </div>
+        )}
+        {notice && (
+          <div className="bg-green-50 border border-green-200 rounded-lg p-3 mb-6 text-sm text-green-800">
+            {notice}
+          </div>
+        )}
+
+        {/* Rule editor */}
+        <form
+          onSubmit={handleSave}
+          className="bg-white rounded-lg shadow-sm p-4 mb-6 space-y-4"
+        >
+          <div className="flex items-center gap-4">
+            <h2 className="font-semibold text-gray-900">
+              {form.id ? `Edit "${form.name}"` : "New rule"}
+            </h2>
+            <label className="flex items-center gap-1 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={form.enabled}
+                onChange={(e) =>
+                  setForm({ ...form, enabled: e.target.checked })
+                }
+              />
+              Enabled
+            </label>
+          </div>
+
+          <input
+            type="text"
+            value={form.name}
+            onChange={(e) => setForm({ ...form, name: e.target.value })}
+            placeholder="Rule name, e.g. Summer cups promotion"
+            className={`w-full ${INPUT_CLASS}`}
+          />
+
+          {/* Trigger */}
+          <div className="flex gap-2">
+            <select
+              value={form.triggerType}
+              onChange={(e) =>
+                setForm({ ...form, triggerType: e.target.value as TriggerType })
+              }
+              className={INPUT_CLASS}
+            >
+              {(Object.keys(TRIGGER_LABELS) as TriggerType[]).map((type) => (
+                <option key={type} value={type}>
+                  {TRIGGER_LABELS[type]}
+                </option>
+              ))}
+            </select>
+            <input
+              type="text"
+              value={form.triggerValue}
+              onChange={(e) =>
+                setForm({ ...form, triggerValue: e.target.value })
+              }
+              placeholder={
+                form.triggerType === "category" ? "Beverages" : "paper cups"
+              }
+              className={`flex-1 ${INPUT_CLASS}`}
+            />
+          </div>
+
+          {/* Pins */}
+          <div>
+            <div className="flex items-center justify-between mb-1">
+              <span className="text-sm font-medium text-gray-700">
+                Pinned products
+              </span>
+              <button
+                type="button"
+                onClick={() =>
+                  setForm({
+                    ...form,
+                    pins: [
+                      ...form.pins,
+                      { sku: "", position: String(form.pins.length + 1) },
+                    ],
+                  })
+                }
+                className="text-xs text-blue-600 hover:text-blue-800"
+              >
+                + Add pin
+              </button>
+            </div>
+            {form.pins.map((pin, index) => (
+              <div key={index} className="flex gap-2 mb-2">
+                <input
+                  type="text"
+                  value={pin.sku}
+                  onChange={(e) =>
+                    setForm({
+                      ...form,
+                      pins: form.pins.map((p, i) =>
+                        i === index ? { ...p, sku: e.target.value } : p
+                      ),
+                    })
+                  }
+                  placeholder="SKU"
+                  className={`flex-1 ${INPUT_CLASS}`}
+                />
+                <input
+                  type="number"
+                  min={1}
+                  max={100}
+                  value={pin.position}
+                  onChange={(e) =>
+                    setForm({
+                      ...form,
+                      pins: form.pins.map((p, i) =>
+                        i === index ? { ...p, position: e.target.value } : p
+                      ),
+                    })
+                  }
+                  title="Position (1 = first result)"
+                  className={`w-24 ${INPUT_CLASS}`}
+                />
+                <button
+                  type="button"
+                  onClick={() =>
+                    setForm({
+                      ...form,
+                      pins: form.pins.filter((_, i) => i !== index),
+                    })
+                  }
+                  className="p-1 text-gray-400 hover:text-red-600"
+                >
+                  <X size={16} />
+                </button>
+              </div>
+            ))}
+          </div>
+
+          {/* Hidden */}
+          <div>
+            <span className="block text-sm font-medium text-gray-700 mb-1">
+              Hidden SKUs
+            </span>
+            <input
+              type="text"
+              value={form.hide}
+              onChange={(e) => setForm({ ...form, hide: e.target.value })}
+              placeholder="Comma-separated SKUs"
+              className={`w-full ${INPUT_CLASS}`}
+            />
+          </div>
+
+          {/* Boosts */}
+          <div>
+            <div className="flex items-center justify-between mb-1">
+              <span className="text-sm font-medium text-gray-700">
+                Boost or bury{" "}
+                <span className="font-normal text-gray-500">
+                  (weight above 1 boosts, below 1 buries)
+                </span>
+              </span>
+              <button
+                type="button"
+                onClick={() =>
+                  setForm({
+                    ...form,
+                    boosts: [
+                      ...form.boosts,
+                      { field: "brand", value: "", weight: "2" },
+                    ],
+                  })
+                }
+                className="text-xs text-blue-600 hover:text-blue-800"
+              >
+                + Add boost
+              </button>
+            </div>
+            {form.boosts.map((boost, index) => (
+              <div key={index} className="flex gap-2 mb-2">
+                <select
+                  value={boost.field}
+                  onChange={(e) =>
+                    setForm({
+                      ...form,
+                      boosts: form.boosts.map((b, i) =>
+                        i === index
+                          ? { ...b, field: e.target.value as BoostField }
+                          : b
+                      ),
+                    })
+                  }
+                  className={INPUT_CLASS}
+                >
+                  <option value="brand">Brand</option>
+                  <option value="category">Category</option>
+                  <option value="attribute">Attribute</option>
+                </select>
+                <input
+                  type="text"
+                  value={boost.value}
+                  onChange={(e) =>
+                    setForm({
+                      ...form,
+                      boosts: form.boosts.map((b, i) =>
+                        i === index ? { ...b, value: e.target.value } : b
+                      ),
+                    })
+                  }
+                  placeholder={
+                    boost.field === "attribute" ? "organic" : "Hershey's"
+                  }
+                  className={`flex-1 ${INPUT_CLASS}`}
+                />
+                <input
+                  type="number"
+                  step="0.1"
+                  min={0.1}
+                  max={10}
+                  value={boost.weight}
+                  onChange={(e) =>
+                    setForm({
+                      ...form,
+                      boosts: form.boosts.map((b, i) =>
+                        i === index ? { ...b, weight: e.target.value } : b
+                      ),
+                    })
+                  }
+                  title="Score multiplier"
+                  className={`w-24 ${INPUT_CLASS}`}
+                />
+                <button
+                  type="button"
+                  onClick={() =>
+                    setForm({
+                      ...form,
+                      boosts: form.boosts.filter((_, i) => i !== index),
+                    })
+                  }
+                  className="p-1 text-gray-400 hover:text-red-600"
+                >
+                  <X size={16} />
+                </button>
+              </div>
+            ))}
+          </div>
+
+          {/* Schedule */}
+          <div className="flex gap-4">
+            <label className="flex-1 text-sm text-gray-700">
+              Starts
+              <input
+                type="datetime-local"
+                value={form.startsAt}
+                onChange={(e) => setForm({ ...form, startsAt: e.target.value })}
+                className={`block w-full mt-1 ${INPUT_CLASS}`}
+              />
+            </label>
+            <label className="flex-1 text-sm text-gray-700">
+              Ends
+              <input
+                type="datetime-local"
+                value={form.endsAt}
+                onChange={(e) => setForm({ ...form, endsAt: e.target.value })}
+                className={`block w-full mt-1 ${INPUT_CLASS}`}
+              />
+            </label>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <button
+              type="submit"
+              disabled={saving || !collection}
+              className="flex items-center gap-1 px-4 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+            >
+              {saving ? (
+                <Loader2 size={16} className="animate-spin" />
+              ) : (
+                <Plus size={16} />
+              )}
+              {form.id ? "Save" : "Add rule"}
+            </button>
+            {form.id && (
+              <button
+                type="button"
+                onClick={() => setForm(EMPTY_FORM)}
+                className="px-4 py-2 text-sm text-gray-600 hover:text-gray-800"
+              >
+                Cancel
+              </button>
+            )}
+          </div>
+        </form>
+
+        {/* Rule list */}
+        <div className="bg-white rounded-lg shadow-sm">
+          <div className="p-4 border-b text-sm text-gray-600">
+            {rules.length} rule{rules.length === 1 ? "" : "s"}
+          </div>
+
+          {loading ? (
+            <div className="p-8 flex justify-center">
+              <Loader2 className="w-6 h-6 animate-spin text-gray-400" />
+            </div>
+          ) : rules.length === 0 ? (
+            <p className="p-8 text-center text-sm text-gray-500">
+              No merchandising rules
+            </p>
+          ) : (
+            <ul className="divide-y">
+              {rules.map((rule) => (
+                <li key={rule.id} className="p-4 flex items-start gap-4">
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2 mb-1">
+                      <span className="font-medium text-gray-900">
+                        {rule.name}
+                      </span>
+                      <span
+                        className={`px-2 py-0.5 text-xs rounded-full ${
+                          rule.active
+                            ? "bg-green-100 text-green-700"
+                            : "bg-gray-100 text-gray-600"
+                        }`}
+                      >
+                        {ruleStatus(rule)}
+                      </span>
+                    </div>
+                    <p className="text-sm text-gray-700">
+                      {TRIGGER_LABELS[rule.trigger.type]} &ldquo;
+                      {rule.trigger.value}&rdquo;
+                    </p>
+                    <p className="text-xs text-gray-500 mt-1">
+                      {describeActions(rule)}
+                      {(rule.startsAt || rule.endsAt) &&
+                        ` · ${formatDate(rule.startsAt)} – ${formatDate(
+                          rule.endsAt
+                        )}`}
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => editRule(rule)}
+                    className="p-1 text-gray-400 hover:text-blue-600"
+                    title="Edit"
+                  >
+                    <Pencil size={16} />
+                  </button>
+                  <button
+                    onClick={() => handleDelete(rule)}
+                    className="p-1 text-gray-400 hover:text-red-600"
+                    title="Delete"
+                  >
+                    <Trash2 size={16} />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function ruleStatus(rule: RuleRow): string {
+  if (rule.active) return "active";
+  if (!rule.enabled) return "disabled";
+  return rule.endsAt && Date.parse(rule.endsAt) <= Date.now()
+    ? "ended"
+    : "scheduled";
+}
+
+function describeActions(rule: MerchandisingRule): string {
+  const parts: string[] = [];
+  if (rule.pins.length > 0) {
+    parts.push(
+      `pins ${rule.pins.map((pin) => `${pin.sku} @${pin.position}`).join(", ")}`
+    );
+  }
+  if (rule.hide.length > 0) parts.push(`hides ${rule.hide.length}`);
+  for (const boost of rule.boosts) {
+    parts.push(
+      `${boost.weight > 1 ? "boosts" : "buries"} ${boost.field} "${
+        boost.value
+      }" ×${boost.weight}`
+    );
+  }
+  return parts.join(" · ");
+}
+
+function formatDate(iso?: string): string {
+  return iso ? new Date(iso).toLocaleString() : "open";
+}
+
+// datetime-local inputs take local time without a zone
+function toLocalInput(iso?: string): string {
+  if (!iso) return "";
+  const date = new Date(iso);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000)
+    .toISOString()
+    .slice(0, 16);
+}
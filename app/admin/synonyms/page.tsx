@@ -0,0 +1,401 @@
+// app/admin/synonyms/page.tsx
+"use client";
+
+import { useState, useEffect, useCallback, useRef } from "react";
+import Link from "next/link";
+import {
+  ArrowLeft,
+  Download,
+  Upload,
+  Trash2,
+  Pencil,
+  Plus,
+  Loader2,
+  AlertCircle,
+} from "lucide-react";
+import CollectionSelector from "@/app/components/CollectionSelector";
+import { adminFetch } from "@/app/lib/admin-fetch";
+import type { Collection } from "@/app/lib/search-types";
+import type { SynonymRule, SynonymType } from "@/app/lib/synonyms";
+
+const EMPTY_FORM = {
+  id: "",
+  type: "multi-way" as SynonymType,
+  root: "",
+  synonyms: "",
+};
+
+export default function SynonymsAdminPage() {
+  const [collections, setCollections] = useState<Collection[]>([]);
+  const [selectedCollection, setSelectedCollection] =
+    useState<Collection | null>(null);
+  const [rules, setRules] = useState<SynonymRule[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState("");
+  const [notice, setNotice] = useState("");
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [filter, setFilter] = useState("");
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const collection = selectedCollection?.id;
+
+  // Synonyms are per collection, so the federated "all" entry is left out
+  useEffect(() => {
+    fetch("/api/collections")
+      .then((res) => res.json())
+      .then((data) => {
+        const concrete = (data.collections || []).filter(
+          (c: Collection) => c.id !== "all"
+        );
+        setCollections(concrete);
+        if (concrete.length > 0) setSelectedCollection(concrete[0]);
+      })
+      .catch(() => setError("Failed to load collections"));
+  }, []);
+
+  const loadRules = useCallback(async () => {
+    if (!collection) return;
+    setLoading(true);
+    setError("");
+    try {
+      const response = await fetch(
+        `/api/synonyms?collection=${encodeURIComponent(collection)}`
+      );
+      const data = await response.json();
+      if (!data.success) throw new Error(data.error);
+      setRules(data.rules);
+    } catch (err: any) {
+      setError(err.message || "Failed to load synonyms");
+      setRules([]);
+    } finally {
+      setLoading(false);
+    }
+  }, [collection]);
+
+  useEffect(() => {
+    loadRules();
+  }, [loadRules]);
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!collection) return;
+
+    setSaving(true);
+    setError("");
+    setNotice("");
+    try {
+      const response = await adminFetch(
+        `/api/synonyms?collection=${encodeURIComponent(collection)}`,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            id: form.id || undefined,
+            type: form.type,
+            root: form.type === "one-way" ? form.root : undefined,
+            synonyms: form.synonyms.split(","),
+          }),
+        }
+      );
+      const data = await response.json();
+      if (!data.success) throw new Error(data.error);
+      setNotice(`Saved "${data.rule.id}"`);
+      setForm(EMPTY_FORM);
+      await loadRules();
+    } catch (err: any) {
+      setError(err.message || "Failed to save rule");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!collection || !window.confirm(`Delete synonym rule "${id}"?`)) return;
+
+    setError("");
+    setNotice("");
+    try {
+      const response = await adminFetch(
+        `/api/synonyms?collection=${encodeURIComponent(
+          collection
+        )}&id=${encodeURIComponent(id)}`,
+        { method: "DELETE" }
+      );
+      const data = await response.json();
+      if (!data.success) throw new Error(data.error);
+      setNotice(`Deleted "${id}"`);
+      await loadRules();
+    } catch (err: any) {
+      setError(err.message || "Failed to delete rule");
+    }
+  };
+
+  const handleImport = async (file: File) => {
+    if (!collection) return;
+
+    const replace = window.confirm(
+      "Replace all existing rules with the file?\n\nOK = replace, Cancel = merge (add and update only)"
+    );
+
+    setSaving(true);
+    setError("");
+    setNotice("");
+    try {
+      const response = await adminFetch(
+        `/api/synonyms?collection=${encodeURIComponent(collection)}&format=csv${
+          replace ? "&mode=replace" : ""
+        }`,
+        {
+          method: "POST",
+          headers: { "Content-Type": "text/csv" },
+          body: await file.text(),
+        }
+      );
+      const data = await response.json();
+      if (!data.success) throw new Error(data.error);
+      setNotice(
+        `Imported ${data.imported} rule${data.imported === 1 ? "" : "s"}` +
+          (data.removed ? `, removed ${data.removed}` : "")
+      );
+      await loadRules();
+    } catch (err: any) {
+      setError(err.message || "Import failed");
+    } finally {
+      setSaving(false);
+      if (fileInputRef.current) fileInputRef.current.value = "";
+    }
+  };
+
+  const editRule = (rule: SynonymRule) => {
+    setForm({
+      id: rule.id,
+      type: rule.type,
+      root: rule.root || "",
+      synonyms: rule.synonyms.join(", "),
+    });
+    window.scrollTo({ top: 0, behavior: "smooth" });
+  };
+
+  const visibleRules = filter.trim()
+    ? rules.filter((rule) =>
+        [rule.id, rule.root || "", ...rule.synonyms].some((term) =>
+          term.includes(filter.trim().toLowerCase())
+        )
+      )
+    : rules;
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <div className="bg-white shadow-sm border-b">
+        <div className="max-w-5xl mx-auto px-4 py-4 flex items-center justify-between">
+          <div className="flex items-center gap-4">
+            <Link href="/" className="text-gray-500 hover:text-gray-700">
+              <ArrowLeft size={20} />
+            </Link>
+            <h1 className="text-2xl font-bold text-gray-900">Synonyms</h1>
+            {selectedCollection && (
+              <CollectionSelector
+                collections={collections}
+                selected={selectedCollection}
+                onChange={setSelectedCollection}
+              />
+            )}
+          </div>
+          {collection && (
+            <div className="flex items-center gap-2">
+              <a
+                href={`/api/synonyms?collection=${encodeURIComponent(
+                  collection
+                )}&format=csv`}
+                className="flex items-center gap-1 px-3 py-2 text-sm border border-gray-300 rounded-lg hover:bg-gray-50"
+              >
+                <Download size={16} />
+                Export CSV
+              </a>
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                disabled={saving}
+                className="flex items-center gap-1 px-3 py-2 text-sm border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+              >
+                <Upload size={16} />
+                Import CSV
+              </button>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".csv,text/csv"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) handleImport(file);
+                }}
+              />
+            </div>
+          )}
+        </div>
+      </div>
+
+      <div className="max-w-5xl mx-auto px-4 py-6">
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-6 flex items-center gap-2">
+            <AlertCircle className="text-red-600" size={20} />
+            <p className="text-red-700">{error}</p>
+          </div>
+        )}
+        {notice && (
+          <div className="bg-green-50 border border-green-200 rounded-lg p-3 mb-6 text-sm text-green-800">
+            {notice}
+          </div>
+        )}
+
+        {/* Rule editor */}
+        <form
+          onSubmit={handleSave}
+          className="bg-white rounded-lg shadow-sm p-4 mb-6 space-y-3"
+        >
+          <div className="flex items-center gap-4">
+            <h2 className="font-semibold text-gray-900">
+              {form.id ? `Edit "${form.id}"` : "New rule"}
+            </h2>
+            <label className="flex items-center gap-1 text-sm text-gray-700">
+              <input
+                type="radio"
+                checked={form.type === "multi-way"}
+                onChange={() => setForm({ ...form, type: "multi-way" })}
+              />
+              Multi-way
+            </label>
+            <label className="flex items-center gap-1 text-sm text-gray-700">
+              <input
+                type="radio"
+                checked={form.type === "one-way"}
+                onChange={() => setForm({ ...form, type: "one-way" })}
+              />
+              One-way
+            </label>
+          </div>
+
+          <p className="text-xs text-gray-500">
+            {form.type === "multi-way"
+              ? "Every term matches every other term."
+              : "Searching the root also finds the synonyms, but not the other way round."}
+          </p>
+
+          {form.type === "one-way" && (
+            <input
+              type="text"
+              value={form.root}
+              onChange={(e) => setForm({ ...form, root: e.target.value })}
+              placeholder="Root term, e.g. hotel pan"
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          )}
+          <input
+            type="text"
+            value={form.synonyms}
+            onChange={(e) => setForm({ ...form, synonyms: e.target.value })}
+            placeholder="Comma-separated terms, e.g. clamshell, hinged container, takeout box"
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+
+          <div className="flex items-center gap-2">
+            <button
+              type="submit"
+              disabled={saving || !collection}
+              className="flex items-center gap-1 px-4 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+            >
+              {saving ? (
+                <Loader2 size={16} className="animate-spin" />
+              ) : (
+                <Plus size={16} />
+              )}
+              {form.id ? "Save" : "Add rule"}
+            </button>
+            {form.id && (
+              <button
+                type="button"
+                onClick={() => setForm(EMPTY_FORM)}
+                className="px-4 py-2 text-sm text-gray-600 hover:text-gray-800"
+              >
+                Cancel
+              </button>
+            )}
+          </div>
+        </form>
+
+        {/* Rule list */}
+        <div className="bg-white rounded-lg shadow-sm">
+          <div className="p-4 border-b flex items-center justify-between">
+            <span className="text-sm text-gray-600">
+              {rules.length} rule{rules.length === 1 ? "" : "s"}
+            </span>
+            <input
+              type="text"
+              value={filter}
+              onChange={(e) => setFilter(e.target.value)}
+              placeholder="Filter rules..."
+              className="px-3 py-1 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+
+          {loading ? (
+            <div className="p-8 flex justify-center">
+              <Loader2 className="w-6 h-6 animate-spin text-gray-400" />
+            </div>
+          ) : visibleRules.length === 0 ? (
+            <p className="p-8 text-center text-sm text-gray-500">
+              No synonym rules
+            </p>
+          ) : (
+            <ul className="divide-y">
+              {visibleRules.map((rule) => (
+                <li key={rule.id} className="p-4 flex items-start gap-4">
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2 mb-1">
+                      <span className="font-mono text-xs text-gray-500">
+                        {rule.id}
+                      </span>
+                      <span
+                        className={`px-2 py-0.5 text-xs rounded-full ${
+                          rule.type === "one-way"
+                            ? "bg-purple-100 text-purple-700"
+                            : "bg-blue-100 text-blue-700"
+                        }`}
+                      >
+                        {rule.type}
+                      </span>
+                    </div>
+                    <p className="text-sm text-gray-800">
+                      {rule.root && (
+                        <>
+                          <strong>{rule.root}</strong> →{" "}
+                        </>
+                      )}
+                      {rule.synonyms.join(", ")}
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => editRule(rule)}
+                    className="p-1 text-gray-400 hover:text-blue-600"
+                    title="Edit"
+                  >
+                    <Pencil size={16} />
+                  </button>
+                  <button
+                    onClick={() => handleDelete(rule.id)}
+                    className="p-1 text-gray-400 hover:text-red-600"
+                    title="Delete"
+                  >
+                    <Trash2 size={16} />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,56 @@
+// app/api/analytics/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { getAnalyticsSink, summarizeEvents } from "@/app/lib/analytics";
+import { getExperiments, summarizeExperiments } from "@/app/lib/experiments";
+
+const DEFAULT_WINDOW_HOURS = 24;
+const MAX_LIMIT = 100;
+
+// GET /api/analytics?hours=24&limit=20
+// or  /api/analytics?since=2024-01-01T00:00:00Z&until=2024-01-02T00:00:00Z
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+
+  const until = params.get("until")
+    ? Date.parse(params.get("until")!)
+    : Date.now();
+  const hours = parseFloat(params.get("hours") || "") || DEFAULT_WINDOW_HOURS;
+  const since = params.get("since")
+    ? Date.parse(params.get("since")!)
+    : until - hours * 60 * 60 * 1000;
+  const limit = Math.min(parseInt(params.get("limit") || "20") || 20, MAX_LIMIT);
+
+  if (isNaN(since) || isNaN(until) || since >= until) {
+    return NextResponse.json(
+      { success: false, error: "Invalid time window" },
+      { status: 400 }
+    );
+  }
+
+  const sink = getAnalyticsSink();
+  if (!sink.read) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: `Analytics sink "${sink.name}" does not support reporting`,
+      },
+      { status: 501 }
+    );
+  }
+
+  try {
+    const events = await sink.read(since, until);
+    return NextResponse.json({
+      success: true,
+      sink: sink.name,
+      ...summarizeEvents(events, since, until, limit),
+      experiments: summarizeExperiments(events, getExperiments()),
+    });
+  } catch (error: any) {
+    console.error("Analytics report error:", error);
+    return NextResponse.json(
+      { success: false, error: error.message },
+      { status: 500 }
+    );
+  }
+}
@@ -1,32 +1,19 @@
 // app/api/collections/route.ts
 import { NextResponse } from "next/server";
-import { getTypesenseClient } from "@/app/lib/typesense-config";
-
-interface TypesenseCollection {
-  name: string;
-  num_documents: number;
-  fields?: Array<any>;
-  default_sorting_field?: string;
-  created_at?: number;
-}
+import {
+  ALL_COLLECTIONS_ID,
+  listSearchableCollections,
+} from "@/app/lib/collections";
 
 export async function GET() {
   try {
-    const client = getTypesenseClient();
-
-    // Retrieve all collections from Typesense
-    const collections = (await client
-      .collections()
-      .retrieve()) as TypesenseCollection[];
+    const collections = await listSearchableCollections();
 
-    const formattedCollections = collections
-      .filter((collection) => collection.name.indexOf("_copy") !== -1)
-      .map((collection) => ({
-        id: collection.name,
-        name: collection.name,
-        documentsCount: collection.num_documents,
-        fields: collection.fields?.length || 0,
-      }));
+    // "All Collections" runs a federated search across every entry below
+    const formattedCollections =
+      collections.length > 1
+        ? [{ id: ALL_COLLECTIONS_ID, name: "All Collections" }, ...collections]
+        : collections;
 
     return NextResponse.json({
       success: true,
@@ -1,12 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
-import OpenAI from 'openai';
-
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
-
-const MODEL = process.env.OPENAI_MODEL || 'text-embedding-3-small';
-const DIMENSIONS = parseInt(process.env.OPENAI_DIMENSIONS || '1536');
+import {
+  embedQuery,
+  getEmbeddingProvider,
+  validateEmbeddingDimensions,
+} from '@/app/lib/embedding-provider';
 
 export async function POST(request: NextRequest) {
   try {
@@ -19,19 +16,24 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Generate embedding for the search query
-    const response = await openai.embeddings.create({
-      model: MODEL,
-      input: query,
-      dimensions: DIMENSIONS,
-    });
+    // Refuse to hand out vectors the collection can't be queried with
+    const schemaCheck = await validateEmbeddingDimensions();
+    if (!schemaCheck.ok && schemaCheck.collectionDimensions !== null) {
+      return NextResponse.json(
+        { error: 'Embedding dimension mismatch', details: schemaCheck.error },
+        { status: 503 }
+      );
+    }
 
-    const embedding = response.data[0].embedding;
+    // Generate embedding for the search query
+    const provider = getEmbeddingProvider();
+    const embedding = await embedQuery(query);
 
     return NextResponse.json({ 
       embedding,
-      model: MODEL,
-      dimensions: DIMENSIONS 
+      provider: provider.name,
+      model: provider.model,
+      dimensions: provider.dimensions 
     });
     
   } catch (error: any) {
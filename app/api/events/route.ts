@@ -0,0 +1,88 @@
+// app/api/events/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { recordEvent } from "@/app/lib/analytics";
+import type { InteractionEvent, InteractionType } from "@/app/lib/analytics";
+
+const INTERACTION_TYPES: InteractionType[] = ["impression", "click", "conversion"];
+const MAX_EVENTS_PER_REQUEST = 100;
+const MAX_ID_LENGTH = 100;
+
+// Accepts one event or { events: [...] }. Browsers send impressions and
+// clicks with navigator.sendBeacon; conversions come from the order system
+// with the searchId that led to the product.
+export async function POST(request: NextRequest) {
+  let body: any;
+  try {
+    // sendBeacon posts text/plain, so parse the raw body ourselves
+    body = JSON.parse(await request.text());
+  } catch {
+    return NextResponse.json(
+      { success: false, error: "Body must be JSON" },
+      { status: 400 }
+    );
+  }
+
+  const raw: unknown[] = Array.isArray(body?.events) ? body.events : [body];
+  if (raw.length > MAX_EVENTS_PER_REQUEST) {
+    return NextResponse.json(
+      { success: false, error: `At most ${MAX_EVENTS_PER_REQUEST} events per request` },
+      { status: 400 }
+    );
+  }
+
+  const events: InteractionEvent[] = [];
+  for (const [index, item] of raw.entries()) {
+    const event = parseInteraction(item);
+    if (!event) {
+      return NextResponse.json(
+        { success: false, error: `Invalid event at index ${index}` },
+        { status: 400 }
+      );
+    }
+    events.push(event);
+  }
+
+  events.forEach(recordEvent);
+
+  return NextResponse.json({ success: true, recorded: events.length });
+}
+
+function parseInteraction(input: any): InteractionEvent | null {
+  if (!input || typeof input !== "object") return null;
+
+  const { type, searchId, sessionId, sku, rank, collection, quantity, value } =
+    input;
+
+  if (!INTERACTION_TYPES.includes(type)) return null;
+  if (!isId(searchId) || !isId(sku)) return null;
+  if (sessionId !== undefined && !isId(sessionId)) return null;
+  if (collection !== undefined && !isId(collection)) return null;
+  if (rank !== undefined && !(Number.isInteger(rank) && rank > 0)) return null;
+
+  const event: InteractionEvent = {
+    type,
+    searchId,
+    sessionId,
+    timestamp: Date.now(),
+    sku,
+    rank,
+    collection,
+  };
+
+  if (type === "conversion") {
+    if (quantity !== undefined && !(Number.isInteger(quantity) && quantity > 0)) {
+      return null;
+    }
+    if (value !== undefined && !(typeof value === "number" && value >= 0)) {
+      return null;
+    }
+    event.quantity = quantity;
+    event.value = value;
+  }
+
+  return event;
+}
+
+function isId(value: unknown): value is string {
+  return typeof value === "string" && value.length > 0 && value.length <= MAX_ID_LENGTH;
+}
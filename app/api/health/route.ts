@@ -1,5 +1,7 @@
 import { NextResponse } from 'next/server';
 import { getTypesenseClient, COLLECTION_NAME } from '@/app/lib/typesense-config';
+import { validateEmbeddingDimensions } from '@/app/lib/embedding-provider';
+import { getCacheStats } from '@/app/lib/search-cache';
 
 export async function GET() {
   try {
@@ -16,6 +18,8 @@ export async function GET() {
       console.error('Collection check failed:', error);
     }
     
+    const embeddingCheck = await validateEmbeddingDimensions();
+    
     return NextResponse.json({
       status: 'healthy',
       typesense: {
@@ -26,6 +30,15 @@ export async function GET() {
           fields: collectionInfo.fields?.length
         } : null
       },
+      embeddings: {
+        healthy: embeddingCheck.ok,
+        provider: embeddingCheck.provider,
+        model: embeddingCheck.model,
+        dimensions: embeddingCheck.providerDimensions,
+        collectionDimensions: embeddingCheck.collectionDimensions,
+        error: embeddingCheck.error
+      },
+      cache: getCacheStats(),
       timestamp: new Date().toISOString()
     });
     
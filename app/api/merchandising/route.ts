@@ -0,0 +1,92 @@
+// app/api/merchandising/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { ALL_COLLECTIONS_ID } from "@/app/lib/collections";
+import { requireAdmin } from "@/app/lib/admin-auth";
+import {
+  MerchandisingValidationError,
+  deleteRule,
+  isRuleActive,
+  listRules,
+  saveRule,
+} from "@/app/lib/merchandising";
+
+// GET    /api/merchandising[?collection=X]  -> { rules } with an "active" flag
+// POST   /api/merchandising                 body: rule -> create or update
+// DELETE /api/merchandising?id=Y
+// POST and DELETE need the admin token (app/lib/admin-auth.ts)
+export async function GET(request: NextRequest) {
+  const collection = request.nextUrl.searchParams.get("collection") || undefined;
+
+  try {
+    const now = Date.now();
+    const rules = (await listRules(collection))
+      .map((rule) => ({ ...rule, active: isRuleActive(rule, now) }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+    return NextResponse.json({ success: true, rules });
+  } catch (error: any) {
+    return errorResponse(error);
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const denied = requireAdmin(request);
+  if (denied) return denied;
+
+  try {
+    const body = await request.json();
+    // Rules belong to one collection; "all" is a search-time pseudo-collection
+    if (body?.collection === ALL_COLLECTIONS_ID) {
+      throw new MerchandisingValidationError("A specific collection is required");
+    }
+
+    // The rule is saved even when the override sync fails: the post-ranking
+    // step still applies it, just not to found counts and facets
+    const { rule, override } = await saveRule(body);
+    return NextResponse.json({ success: true, rule, override });
+  } catch (error: any) {
+    return errorResponse(error);
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  const denied = requireAdmin(request);
+  if (denied) return denied;
+
+  const id = request.nextUrl.searchParams.get("id");
+  if (!id) {
+    return NextResponse.json(
+      { success: false, error: "id is required" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const rule = await deleteRule(id);
+    if (!rule) {
+      return NextResponse.json(
+        { success: false, error: `No rule "${id}"` },
+        { status: 404 }
+      );
+    }
+    return NextResponse.json({ success: true, id });
+  } catch (error: any) {
+    return errorResponse(error);
+  }
+}
+
+function errorResponse(error: any): NextResponse {
+  if (
+    error instanceof MerchandisingValidationError ||
+    error instanceof SyntaxError
+  ) {
+    return NextResponse.json(
+      { success: false, error: error.message },
+      { status: 400 }
+    );
+  }
+  console.error("Merchandising API error:", error);
+  return NextResponse.json(
+    { success: false, error: error.message },
+    { status: 500 }
+  );
+}
@@ -0,0 +1,17 @@
+// app/api/ranking-profiles/route.ts
+import { NextResponse } from "next/server";
+import {
+  getRankingConfig,
+  listRankingProfiles,
+} from "@/app/lib/ranking-profiles";
+
+// GET /api/ranking-profiles -> profiles plus the default and per-collection picks
+export async function GET() {
+  const { defaultProfile, collections } = getRankingConfig();
+  return NextResponse.json({
+    success: true,
+    defaultProfile,
+    collections,
+    profiles: listRankingProfiles(),
+  });
+}
@@ -0,0 +1,182 @@
+// app/api/suggest/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import {
+  getTypesenseClient,
+  COLLECTION_NAME,
+} from "@/app/lib/typesense-config";
+import { ALL_COLLECTIONS_ID } from "@/app/lib/collections";
+import { normalizeQuery, suggestCache } from "@/app/lib/search-cache";
+import type {
+  FacetValue,
+  ProductSuggestion,
+  SuggestResponse,
+} from "@/app/lib/search-types";
+
+const client = getTypesenseClient();
+
+const MIN_QUERY_LENGTH = 2;
+const MAX_QUERY_LENGTH = 100;
+const PRODUCT_LIMIT = 5;
+const COMPLETION_LIMIT = 5;
+const FACET_LIMIT = 4;
+// Extra hits are read (not returned) to find completions in product names
+const HIT_SAMPLE = 20;
+const CATEGORY_FIELDS = ["category_l1", "category_l2", "category_l3", "category_l4"];
+
+// GET /api/suggest?q=hersh&collection=products_en-US_v10_copy
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+  const query = normalizeQuery(params.get("q") || "").slice(0, MAX_QUERY_LENGTH);
+  const requested = params.get("collection");
+  // Typeahead stays on one collection; "all" uses the default
+  const collection =
+    requested && requested !== ALL_COLLECTIONS_ID ? requested : COLLECTION_NAME;
+
+  if (query.length < MIN_QUERY_LENGTH) {
+    return NextResponse.json(emptySuggestions(query));
+  }
+
+  try {
+    const suggestions = await suggestCache.getOrSet(
+      { query, collection },
+      () => fetchSuggestions(query, collection)
+    );
+    return NextResponse.json(suggestions);
+  } catch (error: any) {
+    console.error("Suggest API error:", error);
+    return NextResponse.json(
+      { ...emptySuggestions(query), success: false, error: error.message },
+      { status: 500 }
+    );
+  }
+}
+
+async function fetchSuggestions(
+  query: string,
+  collection: string
+): Promise<SuggestResponse> {
+  const results = await client.multiSearch.perform({
+    searches: [
+      {
+        collection,
+        q: query,
+        query_by: ["name", "brand", ...CATEGORY_FIELDS].join(","),
+        query_by_weights: "4,3,1,1,1,1",
+        prefix: true,
+        sort_by: "_text_match:desc,sales_count:desc",
+        per_page: HIT_SAMPLE,
+        include_fields: "sku,name,brand,price,sale_price,slug,gallery",
+        facet_by: ["brand", ...CATEGORY_FIELDS].join(","),
+        max_facet_values: 10,
+        drop_tokens_threshold: 0,
+        typo_tokens_threshold: 0,
+      } as any,
+    ],
+  });
+
+  const result = results.results && (results.results[0] as any);
+  if (!result || result.error) {
+    throw new Error(result?.error || "Empty suggest response");
+  }
+
+  const hits: any[] = result.hits || [];
+  const facetCounts: any[] = result.facet_counts || [];
+  const tokens = query.split(" ");
+
+  const products: ProductSuggestion[] = hits
+    .slice(0, PRODUCT_LIMIT)
+    .map(({ document }) => ({
+      sku: document.sku,
+      name: document.name,
+      brand: document.brand,
+      price: document.price,
+      sale_price: document.sale_price,
+      slug: document.slug,
+      image: document.gallery?.[0]?.original,
+    }));
+
+  const brands = matchingFacetValues(facetCounts, "brand", tokens).slice(
+    0,
+    FACET_LIMIT
+  );
+
+  // The same label can appear at several levels; keep the first
+  const seen = new Set<string>();
+  const categories = CATEGORY_FIELDS.flatMap((field) =>
+    matchingFacetValues(facetCounts, field, tokens).map((value) => ({
+      ...value,
+      field,
+    }))
+  )
+    .filter((category) => {
+      const key = category.value.toLowerCase();
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .slice(0, FACET_LIMIT);
+
+  return {
+    success: true,
+    query,
+    completions: completeQuery(
+      query,
+      hits.map((hit) => String(hit.document.name || ""))
+    ),
+    brands,
+    categories,
+    products,
+  };
+}
+
+// Completes the last (partial) word from words in matching product names,
+// most frequent first: "choc" -> "chocolate", "dark choc" -> "dark chocolate"
+function completeQuery(query: string, names: string[]): string[] {
+  const words = query.split(" ");
+  const partial = words.pop() || "";
+  const head = words.join(" ");
+
+  const counts = new Map<string, number>();
+  for (const name of names) {
+    for (const word of new Set(name.toLowerCase().match(/[a-z0-9][a-z0-9'-]*/g) || [])) {
+      if (word.length > partial.length && word.startsWith(partial)) {
+        counts.set(word, (counts.get(word) || 0) + 1);
+      }
+    }
+  }
+
+  return Array.from(counts)
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .slice(0, COMPLETION_LIMIT)
+    .map(([word]) => (head ? `${head} ${word}` : word));
+}
+
+// Facet values of the matching products that themselves match a typed word
+function matchingFacetValues(
+  facetCounts: any[],
+  field: string,
+  tokens: string[]
+): FacetValue[] {
+  const counts = facetCounts.find((fc) => fc.field_name === field)?.counts || [];
+  return counts
+    .filter((c: any) => {
+      const valueWords = String(c.value).toLowerCase().split(/[\s/&,-]+/);
+      return tokens.some((token) => valueWords.some((w) => w.startsWith(token)));
+    })
+    .map((c: any) => ({
+      value: String(c.value),
+      label: String(c.value),
+      count: c.count,
+    }));
+}
+
+function emptySuggestions(query: string): SuggestResponse {
+  return {
+    success: true,
+    query,
+    completions: [],
+    brands: [],
+    categories: [],
+    products: [],
+  };
+}
@@ -0,0 +1,136 @@
+// app/api/synonyms/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { ALL_COLLECTIONS_ID } from "@/app/lib/collections";
+import { requireAdmin } from "@/app/lib/admin-auth";
+import {
+  SynonymValidationError,
+  deleteSynonym,
+  listSynonyms,
+  parseSynonymCsv,
+  synonymsToCsv,
+  upsertSynonym,
+  validateSynonymRule,
+} from "@/app/lib/synonyms";
+
+// GET    /api/synonyms?collection=X              -> { rules }
+// GET    /api/synonyms?collection=X&format=csv   -> CSV download
+// POST   /api/synonyms?collection=X              body: rule -> create or update
+// POST   /api/synonyms?collection=X&format=csv   body: CSV  -> import
+//        add &mode=replace to delete rules missing from the file
+// DELETE /api/synonyms?collection=X&id=Y
+// POST and DELETE need the admin token (app/lib/admin-auth.ts)
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+  const collection = requireCollection(params);
+  if (collection instanceof NextResponse) return collection;
+
+  try {
+    const rules = await listSynonyms(collection);
+
+    if (params.get("format") === "csv") {
+      return new NextResponse(synonymsToCsv(rules), {
+        headers: {
+          "Content-Type": "text/csv; charset=utf-8",
+          "Content-Disposition": `attachment; filename="${collection}-synonyms.csv"`,
+        },
+      });
+    }
+
+    return NextResponse.json({ success: true, collection, rules });
+  } catch (error: any) {
+    return errorResponse(error);
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const denied = requireAdmin(request);
+  if (denied) return denied;
+
+  const params = request.nextUrl.searchParams;
+  const collection = requireCollection(params);
+  if (collection instanceof NextResponse) return collection;
+
+  try {
+    if (params.get("format") === "csv") {
+      const rules = parseSynonymCsv(await request.text());
+      const existing =
+        params.get("mode") === "replace" ? await listSynonyms(collection) : [];
+
+      // Sequential keeps Typesense load predictable for large files
+      for (const rule of rules) {
+        await upsertSynonym(collection, rule);
+      }
+
+      const imported = new Set(rules.map((rule) => rule.id));
+      const removed = existing.filter((rule) => !imported.has(rule.id));
+      for (const rule of removed) {
+        await deleteSynonym(collection, rule.id);
+      }
+
+      return NextResponse.json({
+        success: true,
+        collection,
+        imported: rules.length,
+        removed: removed.length,
+      });
+    }
+
+    const rule = validateSynonymRule(await request.json());
+    await upsertSynonym(collection, rule);
+    return NextResponse.json({ success: true, collection, rule });
+  } catch (error: any) {
+    return errorResponse(error);
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  const denied = requireAdmin(request);
+  if (denied) return denied;
+
+  const params = request.nextUrl.searchParams;
+  const collection = requireCollection(params);
+  if (collection instanceof NextResponse) return collection;
+
+  const id = params.get("id");
+  if (!id) {
+    return NextResponse.json(
+      { success: false, error: "id is required" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    await deleteSynonym(collection, id);
+    return NextResponse.json({ success: true, collection, id });
+  } catch (error: any) {
+    return errorResponse(error);
+  }
+}
+
+// Synonyms belong to one collection; "all" is a search-time pseudo-collection
+function requireCollection(params: URLSearchParams): string | NextResponse {
+  const collection = params.get("collection");
+  if (!collection || collection === ALL_COLLECTIONS_ID) {
+    return NextResponse.json(
+      { success: false, error: "A specific collection is required" },
+      { status: 400 }
+    );
+  }
+  return collection;
+}
+
+function errorResponse(error: any): NextResponse {
+  if (error instanceof SynonymValidationError || error instanceof SyntaxError) {
+    return NextResponse.json(
+      { success: false, error: error.message },
+      { status: 400 }
+    );
+  }
+  // typesense-js errors carry the HTTP status of the failed call
+  const status = error.httpStatus === 404 ? 404 : 500;
+  console.error("Synonyms API error:", error);
+  return NextResponse.json(
+    { success: false, error: error.message },
+    { status }
+  );
+}
@@ -32,9 +32,10 @@ export default function CollectionSelector({
   const [isOpen, setIsOpen] = useState(false);
   const dropdownRef = useRef<HTMLDivElement>(null);
 
-  // Filter collections to only show those with "_copy" in the name
+  // Filter collections to only show those with "_copy" in the name,
+  // plus the federated "all" entry
   const filteredCollections = collections.filter(
-    collection => collection.name?.includes('_copy')
+    collection => collection.id === 'all' || collection.name?.includes('_copy')
   );
 
   // Close dropdown when clicking outside
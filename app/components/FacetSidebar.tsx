@@ -0,0 +1,110 @@
+// app/components/FacetSidebar.tsx
+'use client';
+
+import { useState } from 'react';
+import { ChevronDown, X } from 'lucide-react';
+import type { FacetResult, SelectedFacets } from '@/app/lib/search-types';
+
+interface FacetSidebarProps {
+  facets: FacetResult[];
+  selected: SelectedFacets;
+  onToggle: (field: string, value: string) => void;
+  onClear: () => void;
+}
+
+const COLLAPSED_VALUE_COUNT = 6;
+
+export default function FacetSidebar({
+  facets,
+  selected,
+  onToggle,
+  onClear
+}: FacetSidebarProps) {
+  const [collapsed, setCollapsed] = useState<Record<string, boolean>>({});
+  const [expanded, setExpanded] = useState<Record<string, boolean>>({});
+
+  const hasSelection = Object.values(selected).some(values => values.length > 0);
+
+  if (facets.length === 0 && !hasSelection) return null;
+
+  return (
+    <aside className="bg-white rounded-lg shadow-md p-4 space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="font-semibold text-gray-900">Refine Results</h3>
+        {hasSelection && (
+          <button
+            onClick={onClear}
+            className="flex items-center gap-1 text-xs text-blue-600 hover:text-blue-800"
+          >
+            <X className="w-3 h-3" />
+            Clear all
+          </button>
+        )}
+      </div>
+
+      {facets.map((facet) => {
+        const isCollapsed = collapsed[facet.field];
+        const isExpanded = expanded[facet.field];
+        const selectedValues = selected[facet.field] || [];
+        const visibleValues = isExpanded
+          ? facet.values
+          : facet.values.slice(0, COLLAPSED_VALUE_COUNT);
+
+        return (
+          <div key={facet.field} className="border-t pt-3">
+            <button
+              onClick={() =>
+                setCollapsed({ ...collapsed, [facet.field]: !isCollapsed })
+              }
+              className="w-full flex items-center justify-between text-sm font-medium text-gray-700"
+            >
+              <span>{facet.label}</span>
+              <ChevronDown
+                className={`w-4 h-4 text-gray-500 transition-transform ${
+                  isCollapsed ? '' : 'rotate-180'
+                }`}
+              />
+            </button>
+
+            {!isCollapsed && (
+              <div className="mt-2 space-y-1">
+                {visibleValues.map((value) => (
+                  <label
+                    key={value.value}
+                    className="flex items-center justify-between gap-2 text-sm text-gray-600 cursor-pointer hover:text-gray-900"
+                  >
+                    <span className="flex items-center gap-2 min-w-0">
+                      <input
+                        type="checkbox"
+                        checked={selectedValues.includes(value.value)}
+                        onChange={() => onToggle(facet.field, value.value)}
+                        className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                      />
+                      <span className="truncate" title={value.label}>
+                        {value.label}
+                      </span>
+                    </span>
+                    <span className="text-xs text-gray-400">{value.count}</span>
+                  </label>
+                ))}
+
+                {facet.values.length > COLLAPSED_VALUE_COUNT && (
+                  <button
+                    onClick={() =>
+                      setExpanded({ ...expanded, [facet.field]: !isExpanded })
+                    }
+                    className="text-xs text-blue-600 hover:text-blue-800"
+                  >
+                    {isExpanded
+                      ? 'Show less'
+                      : `Show ${facet.values.length - COLLAPSED_VALUE_COUNT} more`}
+                  </button>
+                )}
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </aside>
+  );
+}
@@ -1,28 +1,81 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
 import Image from 'next/image';
-import { Star, TrendingUp, Package, AlertCircle } from 'lucide-react';
-import type { Product } from '@/app/lib/search-types';
+import { Star, TrendingUp, Package, AlertCircle, ChevronDown } from 'lucide-react';
+import type { Product, ScoreBreakdown } from '@/app/lib/search-types';
+import { sendResultInteraction } from '@/app/lib/search-beacon';
 
 interface ProductCardProps {
   product: Product;
   showScore?: boolean;
   collectionName?: string; // Add this prop
+  searchId?: string; // From SearchResponse; enables impression/click beacons
+  rank?: number; // 1-based position in the result list
 }
 
-export default function ProductCard({ product, showScore = false, collectionName }: ProductCardProps) {
+export default function ProductCard({
+  product,
+  showScore = false,
+  collectionName,
+  searchId,
+  rank,
+}: ProductCardProps) {
+  const cardRef = useRef<HTMLDivElement>(null);
+
   const displayPrice = product.sale_price || product.price;
   const rating = Math.min(5, Math.max(1, Math.log10((product.sales_count || 0) + 1)));
   const isPopular = (product.sales_count || 0) > 100;
   const isOnSale = product.sale_price && product.price && product.sale_price < product.price;
   
-  // Determine the URL based on collection name
-  const productUrl = collectionName?.includes('US') 
+  // Determine the URL based on collection name; federated hits carry their own
+  const sourceCollection = product.source_collection || collectionName;
+  const productUrl = sourceCollection?.includes('US') 
     ? `https://www.foodservicedirect.com/${product.slug}`
     : `https://www.foodservicedirect.ca/${product.slug}`;
+
+  // Count an impression once, when at least half the card has been on screen
+  useEffect(() => {
+    const card = cardRef.current;
+    if (!searchId || !rank || !card || typeof IntersectionObserver === 'undefined') return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) {
+          sendResultInteraction({
+            type: 'impression',
+            searchId,
+            sku: product.sku,
+            rank,
+            collection: sourceCollection,
+          });
+          observer.disconnect();
+        }
+      },
+      { threshold: 0.5 }
+    );
+    observer.observe(card);
+    return () => observer.disconnect();
+  }, [searchId, rank, product.sku, sourceCollection]);
+
+  const handleClick = () => {
+    if (searchId && rank) {
+      sendResultInteraction({
+        type: 'click',
+        searchId,
+        sku: product.sku,
+        rank,
+        collection: sourceCollection,
+      });
+    }
+    window.open(productUrl, '_blank', 'noopener,noreferrer');
+  };
   
   return (
     <div 
+      ref={cardRef}
       className="bg-white rounded-lg shadow-md hover:shadow-xl transition-shadow p-4 relative cursor-pointer" 
-      onClick={() => window.open(productUrl, '_blank', 'noopener,noreferrer')}
+      onClick={handleClick}
     >
       {showScore && product.score !== undefined && (
         <div className="absolute top-2 right-2 bg-blue-600 text-white text-xs px-2 py-1 rounded-full z-10">
@@ -107,11 +160,128 @@ export default function ProductCard({ product, showScore = false, collectionName
         </div>
       )}
       
+      {product.identifierMatch === 'prefix' && (
+        <p className="text-xs text-amber-700 mt-2">
+          Partial code match: {product.sku}
+        </p>
+      )}
+
+      {product.source_collection && (
+        <p
+          className="text-xs text-gray-500 mt-2 truncate"
+          title={product.also_in?.length ? `Also in: ${product.also_in.join(', ')}` : undefined}
+        >
+          From {product.source_collection}
+          {product.also_in?.length ? ` (+${product.also_in.length} more)` : ''}
+        </p>
+      )}
+      
       {product.category_l4 && (
         <p className="text-xs text-gray-500 mt-2 truncate" title={product.category_l4}>
           {product.category_l4}
         </p>
       )}
+
+      {showScore && product.debug && <ScoreBreakdownPanel debug={product.debug} />}
+    </div>
+  );
+}
+
+const formatScore = (value: number) =>
+  Math.abs(value) >= 1000 || (value !== 0 && Math.abs(value) < 0.001)
+    ? value.toExponential(2)
+    : value.toFixed(3);
+
+const formatMultiplier = (value: number) => `×${value.toFixed(3)}`;
+
+// "Why this rank": each stage that touched the score, in pipeline order
+function ScoreBreakdownPanel({ debug }: { debug: ScoreBreakdown }) {
+  const [open, setOpen] = useState(false);
+
+  const rows: Array<[string, string]> = [['Source', debug.source]];
+  if (debug.textMatch !== undefined) rows.push(['text_match', String(debug.textMatch)]);
+  if (debug.vectorDistance !== undefined) {
+    rows.push(['vector_distance', debug.vectorDistance.toFixed(4)]);
+  }
+  if (debug.rankFusionScore !== undefined) {
+    rows.push(['Rank fusion', formatScore(debug.rankFusionScore)]);
+  }
+  if (debug.fusion) {
+    const { alpha, vectorRank, keywordRank, vectorContribution, keywordContribution } =
+      debug.fusion;
+    rows.push([
+      `Vector (α ${alpha.toFixed(2)})`,
+      vectorRank ? `#${vectorRank} → ${formatScore(vectorContribution)}` : 'not matched',
+    ]);
+    rows.push([
+      `Keyword (${(1 - alpha).toFixed(2)})`,
+      keywordRank ? `#${keywordRank} → ${formatScore(keywordContribution)}` : 'not matched',
+    ]);
+    if (debug.fusion.sources > 1) rows.push(['Multi-source', 'both lists, contributions summed']);
+  }
+  rows.push(['Base score', formatScore(debug.baseScore)]);
+  if (debug.salesMultiplier !== undefined) {
+    rows.push(['Sales', formatMultiplier(debug.salesMultiplier)]);
+  }
+  if (debug.federation) {
+    rows.push([
+      'Federation',
+      `÷ ${formatScore(debug.federation.bestScore)} (best in ${debug.federation.collection})`,
+    ]);
+  }
+  if (debug.rankingSignals) {
+    const { brand, price, recency } = debug.rankingSignals;
+    if (brand !== 1) rows.push(['Brand', formatMultiplier(brand)]);
+    if (price !== 1) rows.push(['Price', formatMultiplier(price)]);
+    if (recency !== 1) rows.push(['Recency', formatMultiplier(recency)]);
+  }
+  if (debug.merchandisingBoost !== undefined) {
+    rows.push(['Merchandising', formatMultiplier(debug.merchandisingBoost)]);
+  }
+  if (debug.stock && debug.stock.rank !== debug.stock.rankBefore) {
+    rows.push([
+      'Stock',
+      `#${debug.stock.rankBefore} → #${debug.stock.rank}${debug.stock.inStock ? '' : ' (out of stock)'}`,
+    ]);
+  }
+  if (debug.pinnedPosition !== undefined) rows.push(['Pinned', `position ${debug.pinnedPosition}`]);
+
+  return (
+    <div className="mt-2 border-t pt-2 text-xs" onClick={(e) => e.stopPropagation()}>
+      <button
+        type="button"
+        onClick={() => setOpen(!open)}
+        className="flex items-center gap-1 text-blue-600 hover:text-blue-800"
+      >
+        <ChevronDown size={12} className={`transition-transform ${open ? 'rotate-180' : ''}`} />
+        Why this rank
+      </button>
+
+      {open && (
+        <div className="mt-2 space-y-1 text-gray-600">
+          <dl className="grid grid-cols-[auto_1fr] gap-x-2 gap-y-0.5">
+            {rows.map(([label, value]) => (
+              <div key={label} className="contents">
+                <dt className="text-gray-500">{label}</dt>
+                <dd className="font-mono text-right break-all">{value}</dd>
+              </div>
+            ))}
+          </dl>
+
+          {debug.matchedFields.length > 0 && (
+            <div>
+              <p className="text-gray-500">Matched</p>
+              <ul className="font-mono">
+                {debug.matchedFields.map(({ field, tokens }) => (
+                  <li key={field} className="truncate" title={tokens.join(', ')}>
+                    {field}: {tokens.join(', ') || '—'}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      )}
     </div>
   );
 }
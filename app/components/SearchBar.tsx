@@ -1,28 +1,127 @@
 'use client';
 
-import { useState, useEffect } from 'react';
-import { Search, Loader2 } from 'lucide-react';
+import { useState, useEffect, useRef } from 'react';
+import { Search, Loader2, Tag, Layers, Package } from 'lucide-react';
 import VoiceSearch from './VoiceSearch';
+import type { SuggestResponse } from '@/app/lib/search-types';
 
 interface SearchBarProps {
   onSearch: (query: string) => void;
   onQueryChange: (query: string) => void;
   loading?: boolean;
   placeholder?: string;
+  collection?: string; // Collection to draw suggestions from
+}
+
+interface SuggestionItem {
+  kind: 'completion' | 'brand' | 'category' | 'product';
+  label: string;
+  detail?: string;
+  query: string; // What selecting the item searches for
+}
+
+const SUGGEST_DEBOUNCE_MS = 150;
+const MIN_SUGGEST_LENGTH = 2;
+
+function toItems(suggestions: SuggestResponse | null): SuggestionItem[] {
+  if (!suggestions) return [];
+  return [
+    ...suggestions.completions.map((c): SuggestionItem => ({
+      kind: 'completion',
+      label: c,
+      query: c,
+    })),
+    ...suggestions.brands.map((b): SuggestionItem => ({
+      kind: 'brand',
+      label: b.label,
+      detail: `Brand · ${b.count}`,
+      query: b.value,
+    })),
+    ...suggestions.categories.map((c): SuggestionItem => ({
+      kind: 'category',
+      label: c.label,
+      detail: `Category · ${c.count}`,
+      query: c.value,
+    })),
+    ...suggestions.products.map((p): SuggestionItem => ({
+      kind: 'product',
+      label: p.name,
+      detail: [p.brand, p.sku].filter(Boolean).join(' · '),
+      query: p.name,
+    })),
+  ];
+}
+
+function SuggestionIcon({ kind }: { kind: SuggestionItem['kind'] }) {
+  switch (kind) {
+    case 'brand':
+      return <Tag size={14} className="text-purple-500 flex-shrink-0" />;
+    case 'category':
+      return <Layers size={14} className="text-green-600 flex-shrink-0" />;
+    case 'product':
+      return <Package size={14} className="text-blue-500 flex-shrink-0" />;
+    default:
+      return <Search size={14} className="text-gray-400 flex-shrink-0" />;
+  }
 }
 
 export default function SearchBar({ 
   onSearch, 
   onQueryChange, 
   loading = false, 
-  placeholder = "Search products..." 
+  placeholder = "Search products...",
+  collection
 }: SearchBarProps) {
   const [query, setQuery] = useState('');
+  const [suggestions, setSuggestions] = useState<SuggestResponse | null>(null);
+  const [showSuggestions, setShowSuggestions] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(-1);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const items = toItems(suggestions);
+
+  const runSearch = (text: string) => {
+    setShowSuggestions(false);
+    setActiveIndex(-1);
+    abortRef.current?.abort();
+    if (text.trim()) {
+      onSearch(text);
+    }
+  };
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    if (query.trim()) {
-      onSearch(query);
+    runSearch(query);
+  };
+
+  const selectItem = (item: SuggestionItem) => {
+    setQuery(item.query);
+    runSearch(item.query);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!showSuggestions || items.length === 0) return;
+
+    switch (e.key) {
+      case 'ArrowDown':
+        e.preventDefault();
+        setActiveIndex((i) => (i + 1) % items.length);
+        break;
+      case 'ArrowUp':
+        e.preventDefault();
+        setActiveIndex((i) => (i <= 0 ? items.length - 1 : i - 1));
+        break;
+      case 'Enter':
+        // Without a highlighted item Enter submits the typed query
+        if (activeIndex >= 0) {
+          e.preventDefault();
+          selectItem(items[activeIndex]);
+        }
+        break;
+      case 'Escape':
+        setShowSuggestions(false);
+        setActiveIndex(-1);
+        break;
     }
   };
 
@@ -34,9 +133,7 @@ export default function SearchBar({
   const handleVoiceSearch = (transcript: string) => {
     // Execute search with final transcript
     setQuery(transcript);
-    if (transcript.trim()) {
-      onSearch(transcript);
-    }
+    runSearch(transcript);
   };
 
   // Re-run search if switching search type
@@ -44,16 +141,64 @@ export default function SearchBar({
     onQueryChange(query.trim());
   }, [query, onQueryChange]);
 
+  // Debounced typeahead; each keystroke cancels the request before it
+  useEffect(() => {
+    const text = query.trim();
+    if (!showSuggestions || text.length < MIN_SUGGEST_LENGTH) {
+      setSuggestions(null);
+      return;
+    }
+
+    const timer = setTimeout(async () => {
+      abortRef.current?.abort();
+      const controller = new AbortController();
+      abortRef.current = controller;
+
+      try {
+        const params = new URLSearchParams({ q: text });
+        if (collection) params.set('collection', collection);
+        const response = await fetch(`/api/suggest?${params}`, {
+          signal: controller.signal,
+        });
+        const data: SuggestResponse = await response.json();
+        if (data.success) {
+          setSuggestions(data);
+          setActiveIndex(-1);
+        }
+      } catch (error: any) {
+        if (error.name !== 'AbortError') {
+          console.error('Suggest request failed:', error);
+        }
+      }
+    }, SUGGEST_DEBOUNCE_MS);
+
+    return () => clearTimeout(timer);
+  }, [query, collection, showSuggestions]);
+
+  // Cancel any in-flight request on unmount
+  useEffect(() => () => abortRef.current?.abort(), []);
+
   return (
     <form onSubmit={handleSubmit} className="w-full">
       <div className="relative">
         <input
           type="text"
           value={query}
-          onChange={(e) => setQuery(e.target.value)}
+          onChange={(e) => {
+            setQuery(e.target.value);
+            setShowSuggestions(true);
+          }}
+          onKeyDown={handleKeyDown}
+          onFocus={() => setShowSuggestions(true)}
+          onBlur={() => setShowSuggestions(false)}
           placeholder={placeholder}
           className="w-full px-4 py-3 pr-24 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
           disabled={loading}
+          role="combobox"
+          aria-expanded={showSuggestions && items.length > 0}
+          aria-controls="search-suggestions"
+          aria-autocomplete="list"
+          aria-activedescendant={activeIndex >= 0 ? `suggestion-${activeIndex}` : undefined}
         />
         <div className="absolute right-2 top-1/2 -translate-y-1/2 flex items-center gap-1">
           <VoiceSearch 
@@ -72,7 +217,41 @@ export default function SearchBar({
             )}
           </button>
         </div>
+
+        {showSuggestions && items.length > 0 && (
+          <ul
+            id="search-suggestions"
+            role="listbox"
+            className="absolute top-full left-0 right-0 mt-1 bg-white border border-gray-200 rounded-lg shadow-lg z-20 max-h-96 overflow-y-auto py-1"
+          >
+            {items.map((item, index) => (
+              <li
+                key={`${item.kind}:${item.query}:${index}`}
+                id={`suggestion-${index}`}
+                role="option"
+                aria-selected={index === activeIndex}
+                // mousedown fires before the input's blur closes the list
+                onMouseDown={(e) => {
+                  e.preventDefault();
+                  selectItem(item);
+                }}
+                onMouseEnter={() => setActiveIndex(index)}
+                className={`flex items-center gap-2 px-4 py-2 text-sm cursor-pointer ${
+                  index === activeIndex ? 'bg-blue-50 text-blue-700' : 'text-gray-700'
+                }`}
+              >
+                <SuggestionIcon kind={item.kind} />
+                <span className="truncate">{item.label}</span>
+                {item.detail && (
+                  <span className="ml-auto pl-2 text-xs text-gray-400 whitespace-nowrap">
+                    {item.detail}
+                  </span>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
       </div>
     </form>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,41 @@
+// app/lib/admin-auth.ts
+import { createHash, timingSafeEqual } from 'crypto';
+import { NextResponse } from 'next/server';
+
+// Writes to live search configuration (synonyms, merchandising rules) need
+// ADMIN_API_TOKEN, sent as "Authorization: Bearer <token>". With no token
+// configured they're only allowed under `next dev`.
+
+export type AdminCheck =
+  | { ok: true }
+  | { ok: false; status: 401 | 503; error: string };
+
+export function checkAdminToken(headers: Headers): AdminCheck {
+  const expected = process.env.ADMIN_API_TOKEN;
+  if (!expected) {
+    if (process.env.NODE_ENV === 'development') return { ok: true };
+    return { ok: false, status: 503, error: 'ADMIN_API_TOKEN is not configured' };
+  }
+
+  const match = /^Bearer\s+(.+)$/i.exec(headers.get('authorization') || '');
+  if (!match || !tokensEqual(match[1].trim(), expected)) {
+    return { ok: false, status: 401, error: 'A valid admin token is required' };
+  }
+  return { ok: true };
+}
+
+// For admin route handlers: the error response to return, or null to go on
+export function requireAdmin(request: Request): NextResponse | null {
+  const auth = checkAdminToken(request.headers);
+  if (auth.ok) return null;
+  return NextResponse.json(
+    { success: false, error: auth.error },
+    { status: auth.status }
+  );
+}
+
+// Hashing first gives equal lengths, which timingSafeEqual requires
+function tokensEqual(given: string, expected: string): boolean {
+  const digest = (value: string) => createHash('sha256').update(value).digest();
+  return timingSafeEqual(digest(given), digest(expected));
+}
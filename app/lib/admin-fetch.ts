@@ -0,0 +1,24 @@
+// app/lib/admin-fetch.ts
+
+// Client side of app/lib/admin-auth.ts: sends the admin token kept for this
+// browser session, and asks for it again when the server rejects it.
+const STORAGE_KEY = 'adminApiToken';
+
+export async function adminFetch(url: string, init: RequestInit = {}): Promise<Response> {
+  const send = (token: string | null) =>
+    fetch(url, {
+      ...init,
+      headers: {
+        ...(init.headers as Record<string, string> | undefined),
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      },
+    });
+
+  const response = await send(sessionStorage.getItem(STORAGE_KEY));
+  if (response.status !== 401) return response;
+
+  const token = window.prompt('Admin token');
+  if (!token) return response;
+  sessionStorage.setItem(STORAGE_KEY, token.trim());
+  return send(token.trim());
+}
@@ -0,0 +1,277 @@
+// app/lib/analytics.ts
+import { randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { ExtractedFilters, RecoveryStep } from './search-types';
+import { normalizeQuery } from './search-cache';
+
+// One structured record per /api/search call. Later pages fetched with a
+// cursor share the first page's searchId.
+export interface SearchEvent {
+  type: 'search';
+  searchId: string;
+  sessionId?: string;
+  timestamp: number; // ms since epoch
+  query: string;
+  cleanQuery: string;
+  strategy: string | null; // null when the search failed before analysis
+  confidence: number | null;
+  filters: ExtractedFilters;
+  resultCount: number; // Hits on this page
+  found: number; // Total matches
+  latencyMs: number;
+  collection: string;
+  page: number;
+  cached: boolean;
+  recovery?: RecoveryStep; // The original search found nothing; this step did
+  merchandising?: string[]; // Rule ids that pinned, hid or boosted results
+  rankingProfile?: string;
+  experiment?: string; // Experiment id and the variant the search ran under
+  variant?: string;
+  error?: string;
+}
+
+export type InteractionType = 'impression' | 'click' | 'conversion';
+
+// What a shopper did with a result, reported by the browser via /api/events
+// (impressions, clicks) or by the store backend (conversions)
+export interface InteractionEvent {
+  type: InteractionType;
+  searchId: string;
+  sessionId?: string;
+  timestamp: number;
+  sku: string;
+  rank?: number; // 1-based position in the result list
+  collection?: string;
+  quantity?: number; // Conversions only
+  value?: number; // Conversions only, order line value
+}
+
+export type AnalyticsEvent = SearchEvent | InteractionEvent;
+
+// Where events go. Sinks that can't be queried (e.g. a log shipper) leave
+// out read(); /api/analytics then reports that nothing is available.
+export interface AnalyticsSink {
+  readonly name: string;
+  write(event: AnalyticsEvent): Promise<void>;
+  read?(since: number, until: number): Promise<AnalyticsEvent[]>;
+}
+
+// Appends JSON lines to a local file. Reads scan the whole file, which is
+// fine for a single instance; point a larger deployment at a real store.
+export class FileAnalyticsSink implements AnalyticsSink {
+  readonly name = 'file';
+  private pending: Promise<void> = Promise.resolve();
+
+  constructor(
+    private readonly filePath = process.env.ANALYTICS_FILE ||
+      path.join(process.cwd(), '.data', 'search-events.jsonl')
+  ) {}
+
+  write(event: AnalyticsEvent): Promise<void> {
+    // Chain appends so concurrent requests don't interleave partial lines
+    this.pending = this.pending
+      .then(async () => {
+        await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+        await fs.appendFile(this.filePath, JSON.stringify(event) + '\n', 'utf8');
+      })
+      .catch((error) => console.error('Analytics write failed:', error));
+    return this.pending;
+  }
+
+  async read(since: number, until: number): Promise<AnalyticsEvent[]> {
+    await this.pending;
+
+    let contents: string;
+    try {
+      contents = await fs.readFile(this.filePath, 'utf8');
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return [];
+      throw error;
+    }
+
+    const events: AnalyticsEvent[] = [];
+    for (const line of contents.split('\n')) {
+      if (!line) continue;
+      try {
+        const event = JSON.parse(line) as AnalyticsEvent;
+        if (event.timestamp >= since && event.timestamp < until) events.push(event);
+      } catch {
+        // Skip a line truncated by a crash mid-write
+      }
+    }
+    return events;
+  }
+}
+
+export class MemoryAnalyticsSink implements AnalyticsSink {
+  readonly name = 'memory';
+  private readonly events: AnalyticsEvent[] = [];
+
+  constructor(private readonly maxEvents = parseInt(process.env.ANALYTICS_MAX_EVENTS || '10000')) {}
+
+  async write(event: AnalyticsEvent): Promise<void> {
+    this.events.push(event);
+    if (this.events.length > this.maxEvents) {
+      this.events.splice(0, this.events.length - this.maxEvents);
+    }
+  }
+
+  async read(since: number, until: number): Promise<AnalyticsEvent[]> {
+    return this.events.filter((e) => e.timestamp >= since && e.timestamp < until);
+  }
+}
+
+export class NoopAnalyticsSink implements AnalyticsSink {
+  readonly name = 'none';
+  async write(): Promise<void> {}
+}
+
+let analyticsSink: AnalyticsSink | null = null;
+
+export function getAnalyticsSink(): AnalyticsSink {
+  if (!analyticsSink) {
+    analyticsSink = createAnalyticsSink();
+  }
+  return analyticsSink;
+}
+
+// Swap the sink at runtime, e.g. to forward events to a warehouse
+export function setAnalyticsSink(sink: AnalyticsSink) {
+  analyticsSink = sink;
+}
+
+function createAnalyticsSink(): AnalyticsSink {
+  switch (process.env.ANALYTICS_SINK) {
+    case 'memory':
+      return new MemoryAnalyticsSink();
+    case 'none':
+      return new NoopAnalyticsSink();
+    default:
+      return new FileAnalyticsSink();
+  }
+}
+
+// Fire-and-forget: analytics must never slow down or break a search
+export function recordEvent(event: AnalyticsEvent): void {
+  getAnalyticsSink()
+    .write(event)
+    .catch((error) => console.error('Analytics write failed:', error));
+}
+
+export interface QueryCount {
+  query: string;
+  count: number;
+}
+
+export interface AnalyticsReport {
+  since: string;
+  until: string;
+  totalSearches: number;
+  zeroResultRate: number;
+  topQueries: QueryCount[];
+  zeroResultQueries: QueryCount[];
+  strategyMix: Record<string, number>; // strategy -> share of searches
+  latencyMs: { p50: number; p95: number };
+  impressions: number;
+  clicks: number;
+  conversions: number;
+  clickThroughRate: number; // Share of searches with at least one click
+  meanClickRank: number | null;
+}
+
+export function summarizeEvents(
+  events: AnalyticsEvent[],
+  since: number,
+  until: number,
+  limit = 20
+): AnalyticsReport {
+  const searchEvents = events.filter(isSearchEvent);
+  const interactions = events.filter(
+    (e): e is InteractionEvent => !isSearchEvent(e)
+  );
+
+  // Errored searches and later pages count toward latency but not toward
+  // query stats
+  const searches = searchEvents.filter(isQueryIssued);
+  // A recovered search still failed the user's query as written
+  const zeroResults = searches.filter((e) => e.found === 0 || e.recovery);
+
+  const strategyCounts = countBy(searches.map((e) => e.strategy || 'unknown'));
+  const strategyMix: Record<string, number> = {};
+  for (const [strategy, count] of strategyCounts) {
+    strategyMix[strategy] = count / searches.length;
+  }
+
+  const latencies = searchEvents.map((e) => e.latencyMs).sort((a, b) => a - b);
+
+  const clicks = interactions.filter((e) => e.type === 'click');
+  const clickedSearches = new Set(clicks.map((e) => e.searchId));
+  const clickRanks = clicks
+    .map((e) => e.rank)
+    .filter((rank): rank is number => typeof rank === 'number');
+
+  return {
+    since: new Date(since).toISOString(),
+    until: new Date(until).toISOString(),
+    totalSearches: searches.length,
+    zeroResultRate: searches.length > 0 ? zeroResults.length / searches.length : 0,
+    topQueries: topCounts(searches.map((e) => normalizeQuery(e.query)), limit),
+    zeroResultQueries: topCounts(zeroResults.map((e) => normalizeQuery(e.query)), limit),
+    strategyMix,
+    latencyMs: {
+      p50: percentile(latencies, 0.5),
+      p95: percentile(latencies, 0.95),
+    },
+    impressions: interactions.filter((e) => e.type === 'impression').length,
+    clicks: clicks.length,
+    conversions: interactions.filter((e) => e.type === 'conversion').length,
+    clickThroughRate:
+      searches.length > 0
+        ? searches.filter((e) => clickedSearches.has(e.searchId)).length / searches.length
+        : 0,
+    meanClickRank:
+      clickRanks.length > 0
+        ? clickRanks.reduce((sum, rank) => sum + rank, 0) / clickRanks.length
+        : null,
+  };
+}
+
+export function isSearchEvent(event: AnalyticsEvent): event is SearchEvent {
+  return event.type === 'search';
+}
+
+// A query the shopper issued, as opposed to a later page of one or a failure
+export function isQueryIssued(event: SearchEvent): boolean {
+  return !event.error && (event.page || 1) <= 1;
+}
+
+const SEARCH_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Cursor requests keep the searchId of the page they continue, so clicks on
+// any page refer back to one search; everything else gets a new one
+export function resolveSearchId(options: { cursor?: string; searchId?: string }): string {
+  return options.cursor && options.searchId && SEARCH_ID_PATTERN.test(options.searchId)
+    ? options.searchId
+    : randomUUID();
+}
+
+// Nearest-rank percentile over an ascending list
+function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  const rank = Math.ceil(p * sorted.length) - 1;
+  return sorted[Math.min(sorted.length - 1, Math.max(0, rank))];
+}
+
+function countBy(values: string[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const value of values) counts.set(value, (counts.get(value) || 0) + 1);
+  return counts;
+}
+
+function topCounts(values: string[], limit: number): QueryCount[] {
+  return Array.from(countBy(values.filter(Boolean)))
+    .map(([query, count]) => ({ query, count }))
+    .sort((a, b) => b.count - a.count || a.query.localeCompare(b.query))
+    .slice(0, limit);
+}
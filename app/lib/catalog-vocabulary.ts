@@ -0,0 +1,92 @@
+// app/lib/catalog-vocabulary.ts
+import type { Client } from 'typesense';
+import { getTypesenseClient, COLLECTION_NAME } from './typesense-config';
+
+// Known brand and category values in a collection, keyed by lowercase value
+// so lookups are case-insensitive but return the catalog's spelling
+export interface CatalogVocabulary {
+  collection: string;
+  brands: Map<string, string>;
+  categories: Map<string, string>;
+  loadedAt: number;
+}
+
+const CATEGORY_FIELDS = ['category', 'category_l1', 'category_l2', 'category_l3', 'category_l4'];
+const MAX_VALUES_PER_FIELD = parseInt(process.env.VOCABULARY_MAX_VALUES || '1000');
+const VOCABULARY_TTL_MS = parseInt(process.env.VOCABULARY_CACHE_TTL || '3600') * 1000;
+
+// Per client, so a SearchService built on another client never reads this
+// one's vocabulary
+const vocabularies = new WeakMap<Client, Map<string, Promise<CatalogVocabulary | null>>>();
+
+export function getCatalogVocabulary(
+  collection: string = COLLECTION_NAME,
+  client: Client = getTypesenseClient()
+): Promise<CatalogVocabulary | null> {
+  const cache = vocabulariesFor(client);
+  const existing = cache.get(collection);
+  if (existing) return existing;
+
+  const loading = loadVocabulary(collection, client).then((vocabulary) => {
+    // Failed loads are retried on the next call; successful ones expire
+    if (!vocabulary) {
+      cache.delete(collection);
+    } else {
+      setTimeout(() => cache.delete(collection), VOCABULARY_TTL_MS).unref?.();
+    }
+    return vocabulary;
+  });
+
+  cache.set(collection, loading);
+  return loading;
+}
+
+function vocabulariesFor(client: Client): Map<string, Promise<CatalogVocabulary | null>> {
+  let cache = vocabularies.get(client);
+  if (!cache) {
+    cache = new Map();
+    vocabularies.set(client, cache);
+  }
+  return cache;
+}
+
+async function loadVocabulary(
+  collection: string,
+  client: Client
+): Promise<CatalogVocabulary | null> {
+  try {
+    const results = await client.multiSearch.perform({
+      searches: [
+        {
+          collection,
+          q: '*',
+          per_page: 0,
+          facet_by: ['brand', ...CATEGORY_FIELDS].join(','),
+          max_facet_values: MAX_VALUES_PER_FIELD,
+        } as any,
+      ],
+    });
+
+    const result = results.results && (results.results[0] as any);
+    if (!result || result.error) {
+      console.warn(`Could not load vocabulary for ${collection}:`, result?.error);
+      return null;
+    }
+
+    const brands = new Map<string, string>();
+    const categories = new Map<string, string>();
+
+    for (const facet of result.facet_counts || []) {
+      const target = facet.field_name === 'brand' ? brands : categories;
+      for (const { value } of facet.counts || []) {
+        const text = String(value).trim();
+        if (text) target.set(text.toLowerCase(), text);
+      }
+    }
+
+    return { collection, brands, categories, loadedAt: Date.now() };
+  } catch (error) {
+    console.error(`Vocabulary load failed for ${collection}:`, error);
+    return null;
+  }
+}
@@ -0,0 +1,60 @@
+// app/lib/collections.ts
+import type { Client } from 'typesense';
+import { getTypesenseClient, COLLECTION_NAME } from './typesense-config';
+import type { Collection } from './search-types';
+
+// Pseudo-collection that fans a search out across every searchable collection
+export const ALL_COLLECTIONS_ID = 'all';
+
+const COLLECTIONS_TTL_MS = parseInt(process.env.COLLECTIONS_CACHE_TTL || '300') * 1000;
+
+interface TypesenseCollection {
+  name: string;
+  num_documents: number;
+  fields?: Array<any>;
+}
+
+// Per client, so a SearchService built on another client lists its own
+const cache = new WeakMap<Client, { collections: Collection[]; loadedAt: number }>();
+
+// Collections the app searches: the "_copy" collections, in Typesense order
+export async function listSearchableCollections(
+  client: Client = getTypesenseClient()
+): Promise<Collection[]> {
+  const cached = cache.get(client);
+  if (cached && Date.now() - cached.loadedAt < COLLECTIONS_TTL_MS) {
+    return cached.collections;
+  }
+
+  const collections = (await client.collections().retrieve()) as TypesenseCollection[];
+
+  const searchable = collections
+    .filter((collection) => collection.name.indexOf('_copy') !== -1)
+    .map((collection) => ({
+      id: collection.name,
+      name: collection.name,
+      documentsCount: collection.num_documents,
+      fields: collection.fields?.length || 0,
+    }));
+
+  cache.set(client, { collections: searchable, loadedAt: Date.now() });
+  return searchable;
+}
+
+// Maps the requested collection to the concrete collections to query.
+// "all" expands to every searchable collection; nothing means the default.
+export async function resolveSearchCollections(
+  requested?: string,
+  client?: Client
+): Promise<string[]> {
+  if (requested && requested !== ALL_COLLECTIONS_ID) return [requested];
+  if (!requested) return [COLLECTION_NAME];
+
+  try {
+    const names = (await listSearchableCollections(client)).map((c) => c.name);
+    return names.length > 0 ? names : [COLLECTION_NAME];
+  } catch (error) {
+    console.error('Could not list collections, searching the default:', error);
+    return [COLLECTION_NAME];
+  }
+}
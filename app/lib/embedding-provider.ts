@@ -0,0 +1,253 @@
+// app/lib/embedding-provider.ts
+import OpenAI from 'openai';
+import type { Client } from 'typesense';
+import { getTypesenseClient, COLLECTION_NAME } from './typesense-config';
+import { embeddingCache, normalizeQuery } from './search-cache';
+
+export interface EmbeddingProvider {
+  readonly name: string;
+  readonly model: string;
+  readonly dimensions: number;
+  embed(text: string): Promise<number[]>;
+}
+
+export type EmbeddingProviderName = 'openai' | 'local' | 'stub';
+
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'openai';
+  private readonly client: OpenAI;
+
+  constructor(
+    readonly model = process.env.OPENAI_MODEL || 'text-embedding-3-small',
+    readonly dimensions = parseInt(process.env.OPENAI_DIMENSIONS || '1536'),
+    apiKey = process.env.OPENAI_API_KEY
+  ) {
+    if (!apiKey) {
+      throw new Error('OPENAI_API_KEY is not set');
+    }
+    this.client = new OpenAI({ apiKey });
+  }
+
+  async embed(text: string): Promise<number[]> {
+    const response = await this.client.embeddings.create({
+      model: this.model,
+      input: text,
+      dimensions: this.dimensions,
+    });
+    return response.data[0].embedding;
+  }
+}
+
+// Runs a sentence-transformers model in-process via ONNX Runtime.
+// Set LOCAL_EMBEDDING_MODEL_PATH to load models from disk with no network.
+export class LocalEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'local';
+  private extractor: Promise<any> | null = null;
+
+  constructor(
+    readonly model = process.env.LOCAL_EMBEDDING_MODEL || 'Xenova/all-MiniLM-L6-v2',
+    readonly dimensions = parseInt(process.env.LOCAL_EMBEDDING_DIMENSIONS || '384'),
+    private readonly modelPath = process.env.LOCAL_EMBEDDING_MODEL_PATH
+  ) {}
+
+  private getExtractor(): Promise<any> {
+    if (!this.extractor) {
+      this.extractor = import('@xenova/transformers').then(({ pipeline, env }) => {
+        if (this.modelPath) {
+          env.localModelPath = this.modelPath;
+          env.allowRemoteModels = false;
+        }
+        return pipeline('feature-extraction', this.model);
+      });
+      // Let a failed load be retried on the next call
+      this.extractor.catch(() => {
+        this.extractor = null;
+      });
+    }
+    return this.extractor;
+  }
+
+  async embed(text: string): Promise<number[]> {
+    const extractor = await this.getExtractor();
+    const output = await extractor(text, { pooling: 'mean', normalize: true });
+    const embedding = Array.from(output.data as Float32Array);
+
+    if (embedding.length !== this.dimensions) {
+      throw new Error(
+        `Local model ${this.model} produced ${embedding.length} dimensions, expected ${this.dimensions}`
+      );
+    }
+    return embedding;
+  }
+}
+
+// Deterministic, dependency-free embeddings for tests and offline development.
+// Texts sharing tokens get similar vectors, so ranking stays roughly sensible.
+export class StubEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'stub';
+  readonly model = 'stub-hash';
+
+  constructor(
+    readonly dimensions = parseInt(
+      process.env.EMBEDDING_DIMENSIONS || process.env.OPENAI_DIMENSIONS || '1536'
+    )
+  ) {}
+
+  async embed(text: string): Promise<number[]> {
+    const vector = new Array<number>(this.dimensions).fill(0);
+    const tokens = text.toLowerCase().split(/\s+/).filter(Boolean);
+
+    for (const token of tokens) {
+      let seed = hashString(token);
+      // Spread each token over a handful of signed dimensions
+      for (let i = 0; i < 8; i++) {
+        seed = (Math.imul(seed, 1664525) + 1013904223) >>> 0;
+        vector[seed % this.dimensions] += seed & 1 ? 1 : -1;
+      }
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0)) || 1;
+    return vector.map((v) => v / norm);
+  }
+}
+
+function hashString(value: string): number {
+  let hash = 2166136261;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return hash >>> 0;
+}
+
+export function createEmbeddingProvider(
+  name: string = process.env.EMBEDDING_PROVIDER || 'openai'
+): EmbeddingProvider {
+  switch (name) {
+    case 'openai':
+      return new OpenAIEmbeddingProvider();
+    case 'local':
+      return new LocalEmbeddingProvider();
+    case 'stub':
+      return new StubEmbeddingProvider();
+    default:
+      throw new Error(`Unknown EMBEDDING_PROVIDER: ${name}`);
+  }
+}
+
+let embeddingProvider: EmbeddingProvider | null = null;
+
+export function getEmbeddingProvider(): EmbeddingProvider {
+  if (!embeddingProvider) {
+    embeddingProvider = createEmbeddingProvider();
+  }
+  return embeddingProvider;
+}
+
+// Embeds a search query, reusing vectors for repeated normalized queries
+export async function embedQuery(
+  query: string,
+  provider: EmbeddingProvider = getEmbeddingProvider()
+): Promise<number[]> {
+  const normalized = normalizeQuery(query);
+
+  return embeddingCache.getOrSet(
+    { provider: provider.name, model: provider.model, query: normalized },
+    () => provider.embed(normalized)
+  );
+}
+
+export interface EmbeddingSchemaCheck {
+  ok: boolean;
+  provider: string;
+  model: string;
+  providerDimensions: number;
+  collection: string;
+  collectionDimensions: number | null;
+  error?: string;
+}
+
+const schemaChecks = new Map<string, Promise<EmbeddingSchemaCheck>>();
+
+// Compares the provider's output size with num_dim on the collection's
+// `embedding` field. Runs once per collection; the result is memoized.
+export function validateEmbeddingDimensions(
+  collection: string = COLLECTION_NAME
+): Promise<EmbeddingSchemaCheck> {
+  let check = schemaChecks.get(collection);
+  if (!check) {
+    check = runSchemaCheck(collection);
+    schemaChecks.set(collection, check);
+  }
+  return check;
+}
+
+async function runSchemaCheck(collection: string): Promise<EmbeddingSchemaCheck> {
+  let provider: EmbeddingProvider;
+  try {
+    provider = getEmbeddingProvider();
+  } catch (error: any) {
+    return {
+      ok: false,
+      provider: process.env.EMBEDDING_PROVIDER || 'openai',
+      model: '',
+      providerDimensions: 0,
+      collection,
+      collectionDimensions: null,
+      error: error.message,
+    };
+  }
+
+  try {
+    const result = await checkEmbeddingDimensions(provider, collection);
+    if (!result.ok) {
+      console.error('Embedding dimension check failed:', result.error);
+    }
+    return result;
+  } catch (error: any) {
+    // Don't memoize a transient Typesense outage
+    schemaChecks.delete(collection);
+    console.error('Embedding dimension check failed:', error.message);
+    return {
+      ok: false,
+      provider: provider.name,
+      model: provider.model,
+      providerDimensions: provider.dimensions,
+      collection,
+      collectionDimensions: null,
+      error: `Could not read schema for ${collection}: ${error.message}`,
+    };
+  }
+}
+
+// One unmemoized check of a provider against a collection. Throws when the
+// schema can't be read; a mismatch is returned, not logged.
+export async function checkEmbeddingDimensions(
+  provider: EmbeddingProvider,
+  collection: string,
+  client: Client = getTypesenseClient()
+): Promise<EmbeddingSchemaCheck> {
+  const result: EmbeddingSchemaCheck = {
+    ok: false,
+    provider: provider.name,
+    model: provider.model,
+    providerDimensions: provider.dimensions,
+    collection,
+    collectionDimensions: null,
+  };
+
+  const schema = await client.collections(collection).retrieve();
+  const field = schema.fields?.find((f: any) => f.name === 'embedding') as any;
+
+  if (!field) {
+    result.error = `Collection ${collection} has no embedding field`;
+  } else {
+    result.collectionDimensions = field.num_dim ?? null;
+    result.ok = field.num_dim === provider.dimensions;
+    if (!result.ok) {
+      result.error = `Provider ${provider.name} (${provider.model}) produces ${provider.dimensions} dimensions but ${collection}.embedding expects ${field.num_dim}`;
+    }
+  }
+
+  return result;
+}
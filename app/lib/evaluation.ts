@@ -0,0 +1,328 @@
+// app/lib/evaluation.ts
+import { parseCsvRows } from './csv';
+import {
+  getRankingConfig,
+  parseRankingConfig,
+  setRankingConfig,
+} from './ranking-profiles';
+import type { RecoveryStep, SearchOptions, SearchResponse } from './search-types';
+
+// Offline relevance evaluation: run a judged query set through search and
+// score the ranked SKUs against the judgments. Grades are graded relevance
+// (0 = not relevant, higher = better); SKUs without a judgment count as 0.
+
+export interface JudgedQuery {
+  query: string;
+  judgments: Record<string, number>; // SKU -> grade
+}
+
+// Request options to evaluate, plus any ranking profiles they need that
+// aren't in config/ranking-profiles.json (e.g. new query_by_weights)
+export interface EvaluationConfig {
+  name: string;
+  options: Partial<SearchOptions>;
+  profiles?: Record<string, unknown>;
+}
+
+export interface QueryEvaluation {
+  query: string;
+  found: number;
+  ndcg: number;
+  reciprocalRank: number;
+  recall: number;
+  skus: string[]; // Top k as returned
+  recovery?: RecoveryStep; // The query found nothing until this step
+  error?: string;
+}
+
+export interface EvaluationMetrics {
+  queries: number;
+  ndcg: number;
+  mrr: number;
+  recall: number;
+  zeroResultRate: number;
+  errors: number;
+}
+
+export interface EvaluationReport {
+  config: string;
+  k: number;
+  metrics: EvaluationMetrics;
+  queries: QueryEvaluation[];
+}
+
+export interface QueryDelta {
+  query: string;
+  baseline: number; // NDCG@k
+  candidate: number;
+  delta: number;
+}
+
+export interface EvaluationComparison {
+  baseline: EvaluationReport;
+  candidate: EvaluationReport;
+  deltas: Omit<EvaluationMetrics, 'queries' | 'errors'>;
+  improved: number;
+  worsened: number;
+  changed: QueryDelta[]; // Largest NDCG change first
+}
+
+// Runs one query under a config and returns at least the top k results
+export type SearchRunner = (
+  query: string,
+  config: EvaluationConfig,
+  k: number
+) => Promise<Pick<SearchResponse, 'results' | 'found' | 'recovery'>>;
+
+export class EvaluationInputError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'EvaluationInputError';
+  }
+}
+
+// Options a config may not set: they would change what is being measured
+const RESERVED_OPTIONS = ['query', 'collection', 'page', 'limit', 'cursor', 'debug', 'sessionId'];
+
+// JSON: [{ "query": "...", "judgments": { "SKU": grade } }] or { "queries": [...] }.
+// CSV: query,sku,grade rows (header optional, grade defaults to 1), grouped
+// by query in first-seen order.
+export function parseJudgedQueries(text: string, format: 'json' | 'csv'): JudgedQuery[] {
+  const queries = format === 'csv' ? parseJudgmentCsv(text) : parseJudgmentJson(text);
+  if (queries.length === 0) {
+    throw new EvaluationInputError('The query set is empty');
+  }
+  return queries;
+}
+
+function parseJudgmentJson(text: string): JudgedQuery[] {
+  const input = JSON.parse(text);
+  const items = Array.isArray(input) ? input : input?.queries;
+  if (!Array.isArray(items)) {
+    throw new EvaluationInputError('Expected an array of judged queries or { "queries": [...] }');
+  }
+
+  return items.map((item: any, index: number) => {
+    const query = typeof item?.query === 'string' ? item.query.trim() : '';
+    if (!query) throw new EvaluationInputError(`Query ${index + 1}: missing "query"`);
+    if (!item.judgments || typeof item.judgments !== 'object') {
+      throw new EvaluationInputError(`"${query}": missing "judgments"`);
+    }
+
+    const judgments: Record<string, number> = {};
+    for (const [sku, grade] of Object.entries<any>(item.judgments)) {
+      judgments[sku] = parseGrade(grade, `"${query}" ${sku}`);
+    }
+    return requireRelevant({ query, judgments });
+  });
+}
+
+function parseJudgmentCsv(text: string): JudgedQuery[] {
+  const rows = parseCsvRows(text).filter((row) => row.some((cell) => cell.trim()));
+  const hasHeader = rows[0]?.[0]?.trim().toLowerCase() === 'query';
+  const byQuery = new Map<string, Record<string, number>>();
+
+  rows.slice(hasHeader ? 1 : 0).forEach((row, index) => {
+    const line = index + (hasHeader ? 2 : 1);
+    const [query = '', sku = '', grade = ''] = row.map((cell) => cell.trim());
+    if (!query || !sku) {
+      throw new EvaluationInputError(`Line ${line}: expected query,sku[,grade]`);
+    }
+    const judgments = byQuery.get(query) || {};
+    judgments[sku] = grade === '' ? 1 : parseGrade(grade, `Line ${line}`);
+    byQuery.set(query, judgments);
+  });
+
+  return Array.from(byQuery, ([query, judgments]) => requireRelevant({ query, judgments }));
+}
+
+function parseGrade(value: unknown, context: string): number {
+  const grade = typeof value === 'number' ? value : parseFloat(String(value));
+  if (isNaN(grade) || grade < 0) {
+    throw new EvaluationInputError(`${context}: grade must be a number of 0 or more`);
+  }
+  return grade;
+}
+
+// NDCG and recall are undefined for a query with nothing relevant
+function requireRelevant(judged: JudgedQuery): JudgedQuery {
+  if (!Object.values(judged.judgments).some((grade) => grade > 0)) {
+    throw new EvaluationInputError(`"${judged.query}": needs at least one SKU graded above 0`);
+  }
+  return judged;
+}
+
+export function parseEvaluationConfig(input: unknown, fallbackName: string): EvaluationConfig {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    throw new EvaluationInputError('A config must be a JSON object');
+  }
+  // { name, options, profiles }, or a bare options object as shorthand
+  const { name, profiles, options, ...rest } = input as Record<string, any>;
+  const requestOptions = options && typeof options === 'object' ? options : rest;
+
+  for (const key of RESERVED_OPTIONS) {
+    if (key in requestOptions) {
+      throw new EvaluationInputError(`A config can't set "${key}"`);
+    }
+  }
+
+  return {
+    name: typeof name === 'string' && name ? name : fallbackName,
+    options: requestOptions,
+    ...(profiles ? { profiles } : {}),
+  };
+}
+
+// Adds the configs' own ranking profiles to the loaded ones. Throws
+// RankingProfileError for an invalid profile and EvaluationInputError when
+// two configs define the same name differently.
+export function registerEvaluationProfiles(configs: EvaluationConfig[]) {
+  const current = getRankingConfig();
+  const profiles = { ...current.profiles };
+  const definedBy: Record<string, string> = {};
+
+  for (const config of configs) {
+    if (!config.profiles || Object.keys(config.profiles).length === 0) continue;
+    const parsed = parseRankingConfig({
+      defaultProfile: Object.keys(config.profiles)[0],
+      profiles: config.profiles,
+    }).profiles;
+
+    for (const [name, profile] of Object.entries(parsed)) {
+      if (definedBy[name] && JSON.stringify(profiles[name]) !== JSON.stringify(profile)) {
+        throw new EvaluationInputError(
+          `Profile "${name}" is defined differently by ${definedBy[name]} and ${config.name}`
+        );
+      }
+      definedBy[name] = config.name;
+      profiles[name] = profile;
+    }
+  }
+
+  setRankingConfig({ ...current, profiles });
+}
+
+// Runs the queries one at a time so the numbers aren't skewed by load. A
+// failed query scores 0 and is counted in errors.
+export async function evaluate(
+  queries: JudgedQuery[],
+  config: EvaluationConfig,
+  k: number,
+  runSearch: SearchRunner
+): Promise<EvaluationReport> {
+  const results: QueryEvaluation[] = [];
+
+  for (const { query, judgments } of queries) {
+    try {
+      const response = await runSearch(query, config, k);
+      const skus = response.results.slice(0, k).map((product) => product.sku);
+      results.push({
+        query,
+        found: response.found ?? response.results.length,
+        ndcg: ndcgAtK(skus, judgments, k),
+        reciprocalRank: reciprocalRank(skus, judgments),
+        recall: recallAtK(skus, judgments, k),
+        skus,
+        ...(response.recovery ? { recovery: response.recovery.step } : {}),
+      });
+    } catch (error: any) {
+      results.push({
+        query,
+        found: 0,
+        ndcg: 0,
+        reciprocalRank: 0,
+        recall: 0,
+        skus: [],
+        error: error.message,
+      });
+    }
+  }
+
+  return { config: config.name, k, metrics: summarize(results), queries: results };
+}
+
+// Exponential gain, so a grade-3 hit outweighs several grade-1 hits
+export function ndcgAtK(skus: string[], judgments: Record<string, number>, k: number): number {
+  const ideal = Object.values(judgments)
+    .filter((grade) => grade > 0)
+    .sort((a, b) => b - a)
+    .slice(0, k);
+  const idealGain = dcg(ideal);
+  if (idealGain === 0) return 0;
+  return dcg(skus.slice(0, k).map((sku) => judgments[sku] || 0)) / idealGain;
+}
+
+function dcg(grades: number[]): number {
+  return grades.reduce((sum, grade, i) => sum + (Math.pow(2, grade) - 1) / Math.log2(i + 2), 0);
+}
+
+export function reciprocalRank(skus: string[], judgments: Record<string, number>): number {
+  const rank = skus.findIndex((sku) => (judgments[sku] || 0) > 0);
+  return rank === -1 ? 0 : 1 / (rank + 1);
+}
+
+export function recallAtK(skus: string[], judgments: Record<string, number>, k: number): number {
+  const relevant = Object.keys(judgments).filter((sku) => judgments[sku] > 0);
+  if (relevant.length === 0) return 0;
+  const retrieved = new Set(skus.slice(0, k));
+  return relevant.filter((sku) => retrieved.has(sku)).length / relevant.length;
+}
+
+function summarize(results: QueryEvaluation[]): EvaluationMetrics {
+  const mean = (values: number[]) =>
+    values.length ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+  return {
+    queries: results.length,
+    ndcg: mean(results.map((r) => r.ndcg)),
+    mrr: mean(results.map((r) => r.reciprocalRank)),
+    recall: mean(results.map((r) => r.recall)),
+    // A failed search says nothing about whether the query has results
+    zeroResultRate: mean(
+      results.filter((r) => !r.error).map((r) => (isZeroResult(r) ? 1 : 0))
+    ),
+    errors: results.filter((r) => r.error).length,
+  };
+}
+
+// Counted like analytics' zero-result searches: a query that only found
+// results through zero-result recovery counts
+export function isZeroResult(result: QueryEvaluation): boolean {
+  return result.found === 0 || !!result.recovery;
+}
+
+// Both reports must come from the same query set
+export function compareReports(
+  baseline: EvaluationReport,
+  candidate: EvaluationReport
+): EvaluationComparison {
+  const candidateByQuery = new Map(candidate.queries.map((q) => [q.query, q]));
+  const changed: QueryDelta[] = [];
+  let improved = 0;
+  let worsened = 0;
+
+  for (const before of baseline.queries) {
+    const after = candidateByQuery.get(before.query);
+    if (!after) continue;
+    const delta = after.ndcg - before.ndcg;
+    if (Math.abs(delta) < 1e-9) continue;
+    if (delta > 0) improved++;
+    else worsened++;
+    changed.push({ query: before.query, baseline: before.ndcg, candidate: after.ndcg, delta });
+  }
+
+  const { metrics: a } = baseline;
+  const { metrics: b } = candidate;
+  return {
+    baseline,
+    candidate,
+    deltas: {
+      ndcg: b.ndcg - a.ndcg,
+      mrr: b.mrr - a.mrr,
+      recall: b.recall - a.recall,
+      zeroResultRate: b.zeroResultRate - a.zeroResultRate,
+    },
+    improved,
+    worsened,
+    changed: changed.sort((x, y) => Math.abs(y.delta) - Math.abs(x.delta)),
+  };
+}
@@ -0,0 +1,380 @@
+// app/lib/experiments.ts
+import { readFileSync } from 'fs';
+import path from 'path';
+import { isQueryIssued, isSearchEvent } from './analytics';
+import type { AnalyticsEvent, SearchEvent } from './analytics';
+import { getRankingConfig } from './ranking-profiles';
+import { SearchStrategy } from './search-types';
+import type { AnalysisResult, SearchOptions } from './search-types';
+
+// What a variant changes about a search. Overrides win over the request's
+// own settings, otherwise a UI that always sends salesBoost would opt every
+// shopper out of the experiment.
+export interface VariantOverrides {
+  strategy?: SearchStrategy.KEYWORD | SearchStrategy.SEMANTIC; // Identifier lookups are never overridden
+  salesBoost?: number;
+  alpha?: number; // Hybrid merge weight
+  rankingProfile?: string;
+}
+
+export interface ExperimentVariant {
+  name: string;
+  weight: number; // Relative share of traffic
+  overrides: VariantOverrides;
+}
+
+// The first variant is the control the others are compared against
+export interface Experiment {
+  id: string;
+  description?: string;
+  enabled: boolean;
+  unit: 'user' | 'session'; // 'user' falls back to the session for anonymous shoppers
+  collections?: string[]; // Limit to searches of these collections ("all" for federated)
+  variants: ExperimentVariant[];
+  startsAt?: string; // ISO 8601
+  endsAt?: string;
+}
+
+export interface ExperimentAssignment {
+  experiment: Experiment;
+  variant: ExperimentVariant;
+}
+
+export class ExperimentConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ExperimentConfigError';
+  }
+}
+
+const CONFIG_PATH =
+  process.env.EXPERIMENTS_FILE || path.join(process.cwd(), 'config', 'experiments.json');
+
+const ID_PATTERN = /^[a-z0-9][a-z0-9_-]{0,63}$/;
+const MIN_VARIANTS = 2;
+const SIGNIFICANCE_LEVEL = 0.05;
+
+let experiments: Experiment[] | null = null;
+
+// Read once per process; restart to pick up edits to the file. A broken
+// file disables experiments rather than search.
+export function getExperiments(): Experiment[] {
+  if (!experiments) {
+    try {
+      experiments = parseExperiments(JSON.parse(readFileSync(CONFIG_PATH, 'utf8')));
+    } catch (error: any) {
+      console.error(`Experiments disabled (${CONFIG_PATH}):`, error.message);
+      experiments = [];
+    }
+  }
+  return experiments;
+}
+
+// Swap the experiments at runtime, e.g. to load them from elsewhere
+export function setExperiments(next: Experiment[]) {
+  experiments = next;
+}
+
+export function isExperimentActive(experiment: Experiment, now = Date.now()): boolean {
+  if (!experiment.enabled) return false;
+  if (experiment.startsAt && Date.parse(experiment.startsAt) > now) return false;
+  if (experiment.endsAt && Date.parse(experiment.endsAt) <= now) return false;
+  return true;
+}
+
+// Enrolls a search in the first active experiment that covers its
+// collection; run one experiment per collection at a time. The same user or
+// session always lands in the same variant, and each experiment hashes
+// independently so variants don't line up across experiments.
+export function assignExperiment(
+  available: Experiment[],
+  context: { userId?: string; sessionId?: string; collection: string },
+  now = Date.now()
+): ExperimentAssignment | null {
+  const experiment = available.find(
+    (e) =>
+      isExperimentActive(e, now) &&
+      (!e.collections || e.collections.includes(context.collection))
+  );
+  if (!experiment) return null;
+
+  const unitId =
+    (experiment.unit === 'user' ? context.userId : undefined) || context.sessionId;
+  if (!unitId) return null;
+
+  const total = experiment.variants.reduce((sum, v) => sum + v.weight, 0);
+  let bucket = (hashString(`${experiment.id}:${unitId}`) / 0x100000000) * total;
+  for (const variant of experiment.variants) {
+    bucket -= variant.weight;
+    if (bucket < 0) return { experiment, variant };
+  }
+  return { experiment, variant: experiment.variants[experiment.variants.length - 1] };
+}
+
+// The request options a variant replaces; strategy is applied to the analysis
+export function variantOptions(variant: ExperimentVariant): Partial<SearchOptions> {
+  const { strategy, ...options } = variant.overrides;
+  return options;
+}
+
+export function applyVariantStrategy(
+  analysis: AnalysisResult,
+  variant: ExperimentVariant | undefined
+): AnalysisResult {
+  const strategy = variant?.overrides.strategy;
+  if (!strategy || analysis.strategy === SearchStrategy.EXACT_MATCH) return analysis;
+  return { ...analysis, strategy };
+}
+
+// FNV-1a: fast, stable across processes, and evenly spread for short ids
+function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// Two-proportion z-test of a variant against the control
+export interface ProportionTest {
+  difference: number; // Variant rate minus control rate
+  z: number;
+  pValue: number; // Two-sided
+  significant: boolean; // pValue below SIGNIFICANCE_LEVEL
+}
+
+export interface VariantReport {
+  variant: string;
+  searches: number;
+  clickedSearches: number;
+  clickThroughRate: number; // Share of searches with at least one click
+  zeroResultSearches: number;
+  zeroResultRate: number;
+  // Absent for the control
+  vsControl?: { clickThroughRate: ProportionTest; zeroResultRate: ProportionTest };
+}
+
+export interface ExperimentReport {
+  experiment: string;
+  control: string;
+  variants: VariantReport[];
+}
+
+// CTR and zero-result rate per variant, using the same definitions as the
+// analytics report. Each search counts as one observation, so a few very
+// active sessions can overstate significance; read small samples with care.
+export function summarizeExperiments(
+  events: AnalyticsEvent[],
+  configured: Experiment[] = []
+): ExperimentReport[] {
+  const searches = events.filter(
+    (e): e is SearchEvent =>
+      isSearchEvent(e) && isQueryIssued(e) && !!e.experiment && !!e.variant
+  );
+  const clickedSearches = new Set(
+    events.filter((e) => e.type === 'click').map((e) => e.searchId)
+  );
+
+  const byExperiment = new Map<string, Map<string, SearchEvent[]>>();
+  for (const search of searches) {
+    const variants = byExperiment.get(search.experiment!) || new Map<string, SearchEvent[]>();
+    variants.set(search.variant!, [...(variants.get(search.variant!) || []), search]);
+    byExperiment.set(search.experiment!, variants);
+  }
+
+  return Array.from(byExperiment, ([id, variants]) => {
+    // Configured order puts the control first; otherwise order by name
+    const order = configured.find((e) => e.id === id)?.variants.map((v) => v.name) || [];
+    const names = Array.from(variants.keys()).sort(
+      (a, b) => rankOf(order, a) - rankOf(order, b) || a.localeCompare(b)
+    );
+
+    const stats = names.map((name) => {
+      const variantSearches = variants.get(name)!;
+      const clicked = variantSearches.filter((e) => clickedSearches.has(e.searchId)).length;
+      // A recovered search still failed the user's query as written
+      const zero = variantSearches.filter((e) => e.found === 0 || e.recovery).length;
+      return {
+        variant: name,
+        searches: variantSearches.length,
+        clickedSearches: clicked,
+        clickThroughRate: clicked / variantSearches.length,
+        zeroResultSearches: zero,
+        zeroResultRate: zero / variantSearches.length,
+      };
+    });
+
+    const [control, ...others] = stats;
+    return {
+      experiment: id,
+      control: control.variant,
+      variants: [
+        control,
+        ...others.map((variant) => ({
+          ...variant,
+          vsControl: {
+            clickThroughRate: proportionTest(
+              control.clickedSearches,
+              control.searches,
+              variant.clickedSearches,
+              variant.searches
+            ),
+            zeroResultRate: proportionTest(
+              control.zeroResultSearches,
+              control.searches,
+              variant.zeroResultSearches,
+              variant.searches
+            ),
+          },
+        })),
+      ],
+    };
+  });
+}
+
+function rankOf(order: string[], name: string): number {
+  const index = order.indexOf(name);
+  return index === -1 ? order.length : index;
+}
+
+export function proportionTest(
+  controlHits: number,
+  controlTotal: number,
+  variantHits: number,
+  variantTotal: number
+): ProportionTest {
+  const difference = variantHits / variantTotal - controlHits / controlTotal;
+  const pooled = (controlHits + variantHits) / (controlTotal + variantTotal);
+  const standardError = Math.sqrt(
+    pooled * (1 - pooled) * (1 / controlTotal + 1 / variantTotal)
+  );
+  if (!standardError) {
+    return { difference, z: 0, pValue: 1, significant: false };
+  }
+
+  const z = difference / standardError;
+  const pValue = Math.min(1, 2 * (1 - normalCdf(Math.abs(z))));
+  return { difference, z, pValue, significant: pValue < SIGNIFICANCE_LEVEL };
+}
+
+// Abramowitz & Stegun 7.1.26; absolute error below 1.5e-7
+function normalCdf(x: number): number {
+  const t = 1 / (1 + 0.3275911 * (Math.abs(x) / Math.SQRT2));
+  const erf =
+    1 -
+    t *
+      (0.254829592 +
+        t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429)))) *
+      Math.exp(-(x * x) / 2);
+  return x >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+// Validates the config file so a typo fails loudly at startup rather than
+// silently skewing an experiment
+export function parseExperiments(input: unknown): Experiment[] {
+  const items = (input as any)?.experiments;
+  if (!Array.isArray(items)) {
+    throw new ExperimentConfigError('Experiments config needs an "experiments" array');
+  }
+
+  const ids = new Set<string>();
+  return items.map((raw: any) => {
+    const experiment = parseExperiment(raw);
+    if (ids.has(experiment.id)) {
+      throw new ExperimentConfigError(`Duplicate experiment id "${experiment.id}"`);
+    }
+    ids.add(experiment.id);
+    return experiment;
+  });
+}
+
+function parseExperiment(raw: any): Experiment {
+  if (!raw || typeof raw !== 'object') {
+    throw new ExperimentConfigError('Each experiment must be an object');
+  }
+  const id = String(raw.id || '');
+  if (!ID_PATTERN.test(id)) {
+    throw new ExperimentConfigError(
+      `Experiment id "${id}" must be lowercase letters, digits, "-" or "_"`
+    );
+  }
+  const fail = (message: string) => new ExperimentConfigError(`Experiment "${id}": ${message}`);
+
+  const unit = raw.unit ?? 'session';
+  if (unit !== 'user' && unit !== 'session') throw fail('unit must be "user" or "session"');
+
+  if (
+    raw.collections !== undefined &&
+    (!Array.isArray(raw.collections) ||
+      raw.collections.length === 0 ||
+      !raw.collections.every((c: unknown) => typeof c === 'string' && c))
+  ) {
+    throw fail('collections must be a non-empty list of collection names');
+  }
+
+  for (const key of ['startsAt', 'endsAt']) {
+    if (raw[key] !== undefined && isNaN(Date.parse(raw[key]))) {
+      throw fail(`${key} must be an ISO 8601 date`);
+    }
+  }
+  if (raw.startsAt && raw.endsAt && Date.parse(raw.startsAt) >= Date.parse(raw.endsAt)) {
+    throw fail('endsAt must be after startsAt');
+  }
+
+  if (!Array.isArray(raw.variants) || raw.variants.length < MIN_VARIANTS) {
+    throw fail(`needs at least ${MIN_VARIANTS} variants`);
+  }
+  const names = new Set<string>();
+  const variants = raw.variants.map((variant: any) => {
+    const parsed = parseVariant(variant, fail);
+    if (names.has(parsed.name)) throw fail(`duplicate variant "${parsed.name}"`);
+    names.add(parsed.name);
+    return parsed;
+  });
+
+  return {
+    id,
+    ...(typeof raw.description === 'string' ? { description: raw.description } : {}),
+    enabled: raw.enabled !== false,
+    unit,
+    ...(raw.collections ? { collections: raw.collections } : {}),
+    variants,
+    ...(raw.startsAt ? { startsAt: raw.startsAt } : {}),
+    ...(raw.endsAt ? { endsAt: raw.endsAt } : {}),
+  };
+}
+
+function parseVariant(raw: any, fail: (message: string) => Error): ExperimentVariant {
+  const name = typeof raw?.name === 'string' ? raw.name.trim() : '';
+  if (!name) throw fail('every variant needs a name');
+
+  const weight = raw.weight ?? 1;
+  if (typeof weight !== 'number' || !(weight > 0)) {
+    throw fail(`variant "${name}" weight must be a positive number`);
+  }
+
+  const input = raw.overrides || {};
+  const overrides: VariantOverrides = {};
+  if (input.strategy !== undefined) {
+    if (input.strategy !== SearchStrategy.KEYWORD && input.strategy !== SearchStrategy.SEMANTIC) {
+      throw fail(`variant "${name}" strategy must be "keyword" or "semantic"`);
+    }
+    overrides.strategy = input.strategy;
+  }
+  for (const [key, max] of [['salesBoost', 5], ['alpha', 1]] as const) {
+    if (input[key] === undefined) continue;
+    if (typeof input[key] !== 'number' || input[key] < 0 || input[key] > max) {
+      throw fail(`variant "${name}" ${key} must be a number from 0 to ${max}`);
+    }
+    overrides[key] = input[key];
+  }
+  if (input.rankingProfile !== undefined) {
+    if (!getRankingConfig().profiles[input.rankingProfile]) {
+      throw fail(`variant "${name}" uses unknown ranking profile "${input.rankingProfile}"`);
+    }
+    overrides.rankingProfile = input.rankingProfile;
+  }
+
+  return { name, weight, overrides };
+}
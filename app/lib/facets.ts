@@ -0,0 +1,141 @@
+// app/lib/facets.ts
+import type { FacetResult, SelectedFacets } from './search-types';
+import { and, or } from './filter-builder';
+import type { FilterField, FilterNode } from './filter-builder';
+
+// Fields exposed as facets, in sidebar order
+export const FACET_FIELDS: Array<{ field: FilterField; label: string }> = [
+  { field: 'brand', label: 'Brand' },
+  { field: 'category_l1', label: 'Department' },
+  { field: 'category_l2', label: 'Category' },
+  { field: 'category_l3', label: 'Subcategory' },
+  { field: 'category_l4', label: 'Product Type' },
+  { field: 'is_in_stock', label: 'Availability' },
+  { field: 'food_properties', label: 'Dietary' },
+];
+
+export const PRICE_FACET_FIELD = 'price';
+
+// Price buckets; max is exclusive to match Typesense range facets
+export const PRICE_RANGES: Array<{
+  key: string;
+  label: string;
+  min: number;
+  max?: number;
+}> = [
+  { key: 'under_10', label: 'Under $10', min: 0, max: 10 },
+  { key: 'from_10_to_25', label: '$10 - $25', min: 10, max: 25 },
+  { key: 'from_25_to_50', label: '$25 - $50', min: 25, max: 50 },
+  { key: 'from_50_to_100', label: '$50 - $100', min: 50, max: 100 },
+  { key: 'over_100', label: '$100 & Above', min: 100 },
+];
+
+const MAX_FACET_VALUES = 20;
+
+export function buildFacetParams(): { facet_by: string; max_facet_values: number } {
+  const priceRanges = PRICE_RANGES.map(
+    (range) => `${range.key}:[${range.min}, ${range.max ?? ''}]`
+  ).join(', ');
+
+  return {
+    facet_by: [
+      ...FACET_FIELDS.map((f) => f.field),
+      `${PRICE_FACET_FIELD}(${priceRanges})`,
+    ].join(','),
+    max_facet_values: MAX_FACET_VALUES,
+  };
+}
+
+// Turn sidebar selections into a filter node.
+// Values within a field are OR'd, fields are AND'd.
+export function buildFacetFilter(selected: SelectedFacets | undefined): FilterNode | null {
+  if (!selected) return null;
+
+  const clauses: Array<FilterNode | null> = [];
+
+  for (const [field, values] of Object.entries(selected)) {
+    if (!Array.isArray(values) || values.length === 0) continue;
+
+    if (field === PRICE_FACET_FIELD) {
+      const ranges = values
+        .map((key) => PRICE_RANGES.find((r) => r.key === key))
+        .filter((r): r is (typeof PRICE_RANGES)[number] => !!r)
+        .map((r) =>
+          and(
+            { op: 'compare', field: 'price', operator: '>=', value: r.min },
+            r.max !== undefined
+              ? { op: 'compare', field: 'price', operator: '<', value: r.max }
+              : null
+          )
+        );
+      clauses.push(or(...ranges));
+      continue;
+    }
+
+    // Ignore anything that isn't a known facet field
+    const facet = FACET_FIELDS.find((f) => f.field === field);
+    if (!facet) continue;
+
+    const strings = values.filter((v): v is string => typeof v === 'string');
+    if (strings.length === 0) continue;
+
+    clauses.push({
+      op: 'eq',
+      field: facet.field,
+      value:
+        facet.field === 'is_in_stock'
+          ? [...new Set(strings.map((v) => v === 'true'))]
+          : strings,
+    });
+  }
+
+  return and(...clauses);
+}
+
+// Map Typesense facet_counts into the response shape, keeping sidebar order
+export function parseFacetCounts(facetCounts: any[] | undefined): FacetResult[] {
+  if (!facetCounts) return [];
+
+  const byField = new Map<string, any>(
+    facetCounts.map((fc) => [fc.field_name, fc])
+  );
+
+  const facets: FacetResult[] = [];
+
+  for (const { field, label } of FACET_FIELDS) {
+    const counts = byField.get(field)?.counts || [];
+    if (counts.length === 0) continue;
+    facets.push({
+      field,
+      label,
+      values: counts.map((c: any) => ({
+        value: String(c.value),
+        label:
+          field === 'is_in_stock'
+            ? String(c.value) === 'true'
+              ? 'In Stock'
+              : 'Out of Stock'
+            : String(c.value),
+        count: c.count,
+      })),
+    });
+  }
+
+  const priceCounts = byField.get(PRICE_FACET_FIELD)?.counts || [];
+  if (priceCounts.length > 0) {
+    facets.push({
+      field: PRICE_FACET_FIELD,
+      label: 'Price',
+      // Range facets come back keyed by bucket name; keep bucket order
+      values: PRICE_RANGES.map((range) => ({
+        value: range.key,
+        label: range.label,
+        count:
+          priceCounts.find((c: any) => String(c.value) === range.key)?.count ||
+          0,
+      })).filter((v) => v.count > 0),
+    });
+  }
+
+  return facets;
+}
@@ -0,0 +1,101 @@
+// app/lib/federated-search.ts
+import type { FacetResult, Product } from './search-types';
+import { PRICE_FACET_FIELD } from './facets';
+
+export interface CollectionResults {
+  collection: string;
+  results: Product[];
+  found: number;
+}
+
+export interface FederatedResults {
+  results: Product[];
+  found: number;
+}
+
+// Scores from different collections aren't comparable (text_match depends on
+// each collection's corpus), so each list is scaled to [0, 1] by its own best
+// hit before merging. The same item listed in several catalogs is kept once,
+// from the collection where it scored highest, and lists the others in also_in.
+export function federateResults(lists: CollectionResults[]): FederatedResults {
+  const byKey = new Map<string, Product>();
+  let duplicates = 0;
+
+  for (const { collection, results } of lists) {
+    const best = Math.max(0, ...results.map((p) => p.score || 0));
+
+    for (const product of results) {
+      const tagged: Product = {
+        ...product,
+        score: best > 0 ? (product.score || 0) / best : 0,
+        source_collection: collection,
+        ...(product.debug
+          ? { debug: { ...product.debug, federation: { collection, bestScore: best } } }
+          : {}),
+      };
+
+      const key = dedupeKey(product);
+      const existing = byKey.get(key);
+      if (!existing) {
+        byKey.set(key, tagged);
+        continue;
+      }
+
+      duplicates++;
+      const [winner, other] =
+        (tagged.score || 0) > (existing.score || 0) ? [tagged, existing] : [existing, tagged];
+      byKey.set(key, {
+        ...winner,
+        also_in: [
+          ...new Set([
+            ...(winner.also_in || []),
+            ...(other.also_in || []),
+            other.source_collection!,
+          ]),
+        ],
+      });
+    }
+  }
+
+  const results = Array.from(byKey.values()).sort(
+    (a, b) => (b.score || 0) - (a.score || 0) || a.sku.localeCompare(b.sku)
+  );
+
+  const totalFound = lists.reduce((sum, list) => sum + list.found, 0);
+  return { results, found: Math.max(results.length, totalFound - duplicates) };
+}
+
+// Sums counts per facet value across collections. Price buckets keep their
+// defined order; other values are re-sorted by the combined count.
+export function mergeFacetResults(lists: FacetResult[][]): FacetResult[] {
+  const merged = new Map<string, FacetResult>();
+
+  for (const facets of lists) {
+    for (const facet of facets) {
+      const target = merged.get(facet.field);
+      if (!target) {
+        merged.set(facet.field, { ...facet, values: facet.values.map((v) => ({ ...v })) });
+        continue;
+      }
+      for (const value of facet.values) {
+        const existing = target.values.find((v) => v.value === value.value);
+        if (existing) existing.count += value.count;
+        else target.values.push({ ...value });
+      }
+    }
+  }
+
+  const facets = Array.from(merged.values());
+  for (const facet of facets) {
+    if (facet.field !== PRICE_FACET_FIELD) {
+      facet.values.sort((a, b) => b.count - a.count);
+    }
+  }
+  return facets;
+}
+
+// GTIN identifies the physical product across catalogs; SKUs are per-store
+function dedupeKey(product: Product): string {
+  const gtin = product.gtin?.trim();
+  return gtin ? `gtin:${gtin}` : `sku:${product.sku}`;
+}
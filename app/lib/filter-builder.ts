@@ -0,0 +1,215 @@
+// app/lib/filter-builder.ts
+import type { ExtractedFilters } from './search-types';
+
+// Fields clients and analyzers may filter on, with their Typesense types.
+// Anything else is rejected before it reaches filter_by.
+export const FILTERABLE_FIELDS = {
+  brand: 'string',
+  manufacturer: 'string',
+  category: 'string',
+  category_l1: 'string',
+  category_l2: 'string',
+  category_l3: 'string',
+  category_l4: 'string',
+  food_properties: 'string',
+  sku: 'string',
+  mpn: 'string',
+  gtin: 'string',
+  upc: 'string',
+  product_id: 'string',
+  is_in_stock: 'bool',
+  price: 'number',
+  sale_price: 'number',
+  sales_count: 'number',
+  rating_avg: 'number',
+} as const;
+
+export type FilterField = keyof typeof FILTERABLE_FIELDS;
+export type FilterValue = string | number | boolean;
+
+export type FilterNode =
+  | { op: 'eq'; field: FilterField; value: FilterValue | FilterValue[] }
+  | { op: 'match'; field: FilterField; value: string | string[] } // token match, not exact
+  | { op: 'compare'; field: FilterField; operator: '>' | '>=' | '<' | '<='; value: number }
+  | { op: 'and'; children: FilterNode[] }
+  | { op: 'or'; children: FilterNode[] };
+
+// Client-facing shape for SearchOptions.filters:
+//   { brand: ["Hershey's"], is_in_stock: true, price: { min: 5, max: 20 } }
+export type StructuredFilters = Partial<
+  Record<FilterField, FilterValue | FilterValue[] | { min?: number; max?: number }>
+>;
+
+export class FilterValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FilterValidationError';
+  }
+}
+
+const MAX_VALUE_LENGTH = 200;
+const MAX_VALUES_PER_FIELD = 50;
+
+const CATEGORY_FIELDS: FilterField[] = [
+  'category',
+  'category_l1',
+  'category_l2',
+  'category_l3',
+  'category_l4',
+];
+
+export const and = (...children: Array<FilterNode | null | undefined>): FilterNode | null => {
+  const present = children.filter((c): c is FilterNode => !!c);
+  if (present.length === 0) return null;
+  return present.length === 1 ? present[0] : { op: 'and', children: present };
+};
+
+export const or = (...children: Array<FilterNode | null | undefined>): FilterNode | null => {
+  const present = children.filter((c): c is FilterNode => !!c);
+  if (present.length === 0) return null;
+  return present.length === 1 ? present[0] : { op: 'or', children: present };
+};
+
+export function renderFilter(node: FilterNode | null): string {
+  if (!node) return '';
+
+  switch (node.op) {
+    case 'and':
+    case 'or': {
+      const parts = node.children.map(renderFilter).filter(Boolean);
+      const joined = parts.join(node.op === 'and' ? ' && ' : ' || ');
+      return parts.length > 1 ? `(${joined})` : joined;
+    }
+    case 'eq':
+      return `${assertField(node.field)}:=${renderValues(node.value)}`;
+    case 'match':
+      return `${assertField(node.field)}:${renderValues(node.value)}`;
+    case 'compare':
+      return `${assertField(node.field)}:${node.operator}${renderNumber(node.value)}`;
+  }
+}
+
+// Filters extracted from the query by the parser or the LLM
+export function extractedFiltersToNode(filters: ExtractedFilters | undefined): FilterNode | null {
+  if (!filters) return null;
+
+  return and(
+    filters.minPrice !== undefined
+      ? { op: 'compare', field: 'price', operator: '>=', value: filters.minPrice }
+      : null,
+    filters.maxPrice !== undefined
+      ? { op: 'compare', field: 'price', operator: '<=', value: filters.maxPrice }
+      : null,
+    filters.brand ? { op: 'eq', field: 'brand', value: filters.brand } : null,
+    // Could match against any category level
+    filters.category
+      ? or(...CATEGORY_FIELDS.map((field): FilterNode => ({ op: 'eq', field, value: filters.category! })))
+      : null,
+    filters.inStock ? { op: 'eq', field: 'is_in_stock', value: true } : null,
+    filters.onSale ? { op: 'compare', field: 'sale_price', operator: '>', value: 0 } : null,
+    // Attributes (organic, gluten-free) are tokens within food_properties
+    ...(filters.attributes || []).map(
+      (attr): FilterNode => ({ op: 'match', field: 'food_properties', value: attr })
+    )
+    // packSize has no schema field to filter on; the phrase stays in the
+    // query text so names like "12/Case" still match
+  );
+}
+
+// Validates untrusted SearchOptions.filters input into an AST
+export function parseStructuredFilters(input: unknown): FilterNode | null {
+  if (input === undefined || input === null) return null;
+
+  if (typeof input === 'string') {
+    throw new FilterValidationError(
+      'filters must be an object of field -> value(s); raw filter_by strings are not accepted'
+    );
+  }
+  if (typeof input !== 'object' || Array.isArray(input)) {
+    throw new FilterValidationError('filters must be an object');
+  }
+
+  const nodes: FilterNode[] = [];
+
+  for (const [key, value] of Object.entries(input as Record<string, unknown>)) {
+    if (!Object.hasOwn(FILTERABLE_FIELDS, key)) {
+      throw new FilterValidationError(`Field "${key}" is not filterable`);
+    }
+    const field = key as FilterField;
+    const type = FILTERABLE_FIELDS[field];
+
+    if (value === undefined || value === null) continue;
+
+    if (type === 'number' && typeof value === 'object' && !Array.isArray(value)) {
+      const { min, max } = value as { min?: unknown; max?: unknown };
+      const range = and(
+        min !== undefined
+          ? { op: 'compare', field, operator: '>=', value: expectNumber(field, min) }
+          : null,
+        max !== undefined
+          ? { op: 'compare', field, operator: '<=', value: expectNumber(field, max) }
+          : null
+      );
+      if (range) nodes.push(range);
+      continue;
+    }
+
+    const values = Array.isArray(value) ? value : [value];
+    if (values.length === 0) continue;
+    if (values.length > MAX_VALUES_PER_FIELD) {
+      throw new FilterValidationError(`Too many values for "${field}"`);
+    }
+
+    const checked = values.map((v) => {
+      if (type === 'bool') {
+        if (typeof v !== 'boolean') throw new FilterValidationError(`"${field}" expects true or false`);
+        return v;
+      }
+      if (type === 'number') return expectNumber(field, v);
+      if (typeof v !== 'string' || !v.trim() || v.length > MAX_VALUE_LENGTH) {
+        throw new FilterValidationError(`"${field}" expects non-empty strings`);
+      }
+      return v;
+    });
+
+    nodes.push({ op: 'eq', field, value: checked.length === 1 ? checked[0] : checked });
+  }
+
+  return and(...nodes);
+}
+
+function expectNumber(field: string, value: unknown): number {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    throw new FilterValidationError(`"${field}" expects a number`);
+  }
+  return value;
+}
+
+function assertField(field: string): string {
+  if (!Object.hasOwn(FILTERABLE_FIELDS, field)) {
+    throw new FilterValidationError(`Field "${field}" is not filterable`);
+  }
+  return field;
+}
+
+function renderValues(value: FilterValue | FilterValue[]): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(renderValue).join(',')}]`;
+  }
+  return renderValue(value);
+}
+
+function renderValue(value: FilterValue): string {
+  if (typeof value === 'number') return renderNumber(value);
+  if (typeof value === 'boolean') return String(value);
+  // Backticks make commas, parentheses, && and || literal. Typesense has no
+  // escape for a backtick inside one, so those are dropped.
+  return `\`${value.replace(/`/g, '')}\``;
+}
+
+function renderNumber(value: number): string {
+  if (!Number.isFinite(value)) {
+    throw new FilterValidationError(`Invalid numeric filter value: ${value}`);
+  }
+  return String(value);
+}
@@ -0,0 +1,204 @@
+// app/lib/filter-parser.ts
+import type { ExtractedFilters } from './search-types';
+import { SearchAnalyzer } from './search-analyzer';
+
+export interface ParsedQuery {
+  filters: ExtractedFilters;
+  cleanQuery: string; // Query with filter phrases removed; may be empty
+}
+
+// Attributes that describe the product itself ("frozen pizza", "canned
+// tomatoes") rather than a dietary/property filter. They stay in the query.
+const DESCRIPTIVE_ATTRIBUTES = new Set([
+  'fresh', 'frozen', 'dried', 'canned', 'disposable', 'recyclable',
+  'biodegradable', 'eco-friendly', 'whole', 'raw', 'natural',
+]);
+
+// Numbers followed by these are quantities, not prices ("over 50 ct").
+// Word units need a boundary so "5 gluten free" isn't read as "5 g".
+const UNIT_LOOKAHEAD =
+  '(?!\\s*(?:(?:lbs?|pounds?|oz|ounces?|ct|count|pk|pack|packs|gal|gallons?|qt|quarts?|in|inch|inches|ft|ml|l|liters?|kg|g|grams?|x)\\b|%|"|\'|/))';
+
+// A whole number or up to two decimals, never part of a longer number:
+// "2.5 lb" must not yield 2, nor "5.999" yield 5.99
+const NUMBER = '(?<!\\d)(?<!\\d\\.)(\\d+(?:\\.\\d{1,2})?)(?!\\.?\\d)';
+
+// "$5", "5 dollars", "5.99 usd", or a bare "5" when the context says price
+const AMOUNT = `\\$\\s*${NUMBER}|${NUMBER}\\s*(?:dollars?|bucks|usd)\\b|${NUMBER}${UNIT_LOOKAHEAD}`;
+
+const MAX_PHRASES = ['under', 'below', 'less than', 'cheaper than', 'no more than', 'at most', 'up to', 'max', 'maximum'];
+const MIN_PHRASES = ['over', 'above', 'more than', 'greater than', 'at least', 'starting at', 'min', 'minimum'];
+const APPROX_PHRASES = ['around', 'about', 'approximately', 'roughly'];
+
+const PRICE_RULES: Array<{
+  pattern: RegExp;
+  apply: (amounts: number[], filters: ExtractedFilters) => void;
+}> = [
+  {
+    // "between 5 and 20 dollars", "from $5 to $20"
+    pattern: new RegExp(
+      `\\b(?:between|from)\\s+(?:${AMOUNT})\\s*(?:and|to|-|–)\\s*(?:${AMOUNT})`,
+      'gi'
+    ),
+    apply: ([a, b], filters) => setRange(filters, a, b),
+  },
+  {
+    // "$5-$20", "$5 to 20", "5-20 dollars"
+    pattern: new RegExp(
+      `\\$\\s*${NUMBER}\\s*(?:-|–|to)\\s*\\$?\\s*${NUMBER}|${NUMBER}\\s*(?:-|–|to)\\s*${NUMBER}\\s*(?:dollars?|bucks|usd)\\b`,
+      'gi'
+    ),
+    apply: ([a, b], filters) => setRange(filters, a, b),
+  },
+  {
+    pattern: phrasePattern(MAX_PHRASES, '<'),
+    apply: ([amount], filters) => {
+      filters.maxPrice = amount;
+    },
+  },
+  {
+    pattern: phrasePattern(MIN_PHRASES, '>'),
+    apply: ([amount], filters) => {
+      filters.minPrice = amount;
+    },
+  },
+  {
+    // "around $20" means +/- 20%
+    pattern: phrasePattern(APPROX_PHRASES, '~'),
+    apply: ([amount], filters) => {
+      filters.minPrice = roundPrice(amount * 0.8);
+      filters.maxPrice = roundPrice(amount * 1.2);
+    },
+  },
+];
+
+const PACK_RULES: RegExp[] = [
+  // "case of 12", "pack of 24"
+  /\b(?:case|pack|box|carton|bag|tray)\s+of\s+(\d+)\b/gi,
+  // "12 pack", "24-count", "6 ct", "12 per case", "12/case"
+  /\b(\d+)\s*(?:-\s*)?(?:pack|pk|count|ct|per\s+case|\/\s*case)\b/gi,
+  // Foodservice notation: "6/#10", "6/10 can". Needs the "#" or "can" so
+  // fractions ("1/2 hotel pan") aren't read as pack sizes.
+  /\b(\d+)\s*\/\s*(?:#\s*\d+\b|\d+\s*cans?\b)/gi,
+];
+
+const STOCK_PATTERN = /\b(?:in[-\s]?stock|available(?:\s+now)?|ready\s+to\s+ship)\b/gi;
+const SALE_PATTERN = /\b(?:on[-\s]?sale|discounted|on\s+special|clearance)\b/gi;
+
+// Words left dangling once filter phrases are cut out
+const CONNECTORS = new Set([
+  'and', 'or', 'with', 'that', 'are', 'is', 'which', 'priced', 'costing',
+  'cost', 'costs', 'only', 'for', 'items', 'at', 'price', 'prices',
+]);
+
+const defaultAttributeTerms = new SearchAnalyzer().attributeTerms;
+
+// Extracts price, stock, sale, pack-size and dietary filters with fixed
+// grammar so they work with no LLM. Phrases that become filters are removed
+// from cleanQuery; pack sizes stay in it since product names carry them.
+export function parseQueryFilters(
+  query: string,
+  attributeTerms: readonly string[] = defaultAttributeTerms
+): ParsedQuery {
+  const filters: ExtractedFilters = {};
+
+  // `scan` is what later rules still see; `output` becomes cleanQuery.
+  // Both keep the original length so match indices line up.
+  let scan = query;
+  let output = query;
+
+  const consume = (start: number, length: number, removeFromQuery: boolean) => {
+    const blank = ' '.repeat(length);
+    scan = scan.slice(0, start) + blank + scan.slice(start + length);
+    if (removeFromQuery) {
+      output = output.slice(0, start) + blank + output.slice(start + length);
+    }
+  };
+
+  // Pack sizes first, so "12 pack under 20" doesn't read 12 as a price
+  for (const pattern of PACK_RULES) {
+    for (const match of Array.from(scan.matchAll(pattern))) {
+      const count = parseInt(match[1]);
+      if (count > 0 && filters.packSize === undefined) filters.packSize = count;
+      consume(match.index!, match[0].length, false);
+    }
+  }
+
+  for (const rule of PRICE_RULES) {
+    for (const match of Array.from(scan.matchAll(rule.pattern))) {
+      const amounts = match
+        .slice(1)
+        .filter((group) => group !== undefined)
+        .map((group) => parseFloat(group));
+      if (amounts.length === 0 || amounts.some((a) => !Number.isFinite(a))) continue;
+      rule.apply(amounts, filters);
+      consume(match.index!, match[0].length, true);
+    }
+  }
+
+  for (const match of Array.from(scan.matchAll(STOCK_PATTERN))) {
+    filters.inStock = true;
+    consume(match.index!, match[0].length, true);
+  }
+
+  for (const match of Array.from(scan.matchAll(SALE_PATTERN))) {
+    filters.onSale = true;
+    consume(match.index!, match[0].length, true);
+  }
+
+  const attributes: string[] = [];
+  for (const term of attributeTerms) {
+    if (DESCRIPTIVE_ATTRIBUTES.has(term)) continue;
+    for (const match of Array.from(scan.matchAll(attributePattern(term)))) {
+      if (!attributes.includes(term)) attributes.push(term);
+      consume(match.index!, match[0].length, true);
+    }
+  }
+  if (attributes.length > 0) filters.attributes = attributes;
+
+  return { filters, cleanQuery: tidyQuery(output) };
+}
+
+function phrasePattern(phrases: string[], symbol: string): RegExp {
+  const alternatives = phrases.map((p) => p.replace(/\s+/g, '\\s+')).join('|');
+  // Symbols have no word boundary, so only the words are anchored
+  return new RegExp(`(?:\\b(?:${alternatives})|${symbol})\\s*(?:${AMOUNT})`, 'gi');
+}
+
+// "gluten-free" also matches "gluten free" and "glutenfree"
+function attributePattern(term: string): RegExp {
+  const escaped = term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/-/g, '[-\\s]?');
+  return new RegExp(`\\b${escaped}\\b`, 'gi');
+}
+
+function setRange(filters: ExtractedFilters, a: number, b: number) {
+  filters.minPrice = Math.min(a, b);
+  filters.maxPrice = Math.max(a, b);
+}
+
+function roundPrice(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function tidyQuery(text: string): string {
+  const tokens = text
+    .replace(/[,;]+/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean);
+
+  // Drop connectors stranded at either end ("cookies that are" -> "cookies")
+  while (tokens.length > 0 && CONNECTORS.has(tokens[tokens.length - 1].toLowerCase())) {
+    tokens.pop();
+  }
+  while (tokens.length > 0 && CONNECTORS.has(tokens[0].toLowerCase())) {
+    tokens.shift();
+  }
+
+  // Collapse runs of connectors left in the middle ("pasta and and sauce")
+  return tokens
+    .filter(
+      (token, i) =>
+        !(CONNECTORS.has(token.toLowerCase()) && CONNECTORS.has((tokens[i + 1] || '').toLowerCase()))
+    )
+    .join(' ');
+}
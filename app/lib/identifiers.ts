@@ -0,0 +1,118 @@
+// app/lib/identifiers.ts
+import type { FilterField } from './filter-builder';
+
+// Product identifiers for exact lookups. GTIN-8, UPC-A (GTIN-12), EAN-13
+// and GTIN-14 share one check-digit scheme and are the same number once
+// zero-padded to 14 digits, so 012345678905, 12345678905 and
+// 00012345678905 are one product however the catalog stored it.
+
+export type IdentifierType = 'gtin' | 'upc' | 'ean' | 'productId' | 'sku';
+
+export interface ParsedIdentifier {
+  type: IdentifierType;
+  normalized: string; // GTIN-14 for barcodes; upper-cased without separators otherwise
+  values: string[]; // Every form the catalog might store
+  fields: FilterField[]; // Where this type is looked up
+  checkDigitValid?: boolean; // Set for all-digit codes of a barcode length
+}
+
+// Sellers number products with plain digits too, so barcodes are also
+// looked up in the code fields; seller codes only in code fields
+export const IDENTIFIER_FIELDS: Record<IdentifierType, FilterField[]> = {
+  gtin: ['gtin', 'upc', 'sku', 'mpn'],
+  upc: ['gtin', 'upc', 'sku', 'mpn'],
+  ean: ['gtin', 'upc', 'sku', 'mpn'],
+  productId: ['product_id', 'sku'],
+  sku: ['sku', 'mpn'],
+};
+
+// 11 is a UPC-A whose leading zero was dropped, e.g. by a spreadsheet
+const BARCODE_LENGTHS = [8, 11, 12, 13, 14];
+const PRODUCT_ID_PATTERN = /^(PROD|ID|P)[\-_]?\d{4,}$/i;
+
+const BARCODE_TYPES: IdentifierType[] = ['gtin', 'upc', 'ean'];
+
+export function isIdentifierType(value: unknown): value is IdentifierType {
+  return typeof value === 'string' && Object.hasOwn(IDENTIFIER_FIELDS, value);
+}
+
+// Hyphens, spaces and dots are formatting ("0-12345-67890-5"), not part of a code
+export function stripSeparators(code: string): string {
+  return code.replace(/[\s\-.]/g, '');
+}
+
+// GS1 mod 10: from the digit left of the check digit, weights alternate
+// 3, 1, 3, ... Leading zeros add nothing, so padding never changes the result.
+export function hasValidCheckDigit(digits: string): boolean {
+  if (!/^\d{2,14}$/.test(digits)) return false;
+  let sum = 0;
+  for (let i = digits.length - 2, weight = 3; i >= 0; i--, weight = 4 - weight) {
+    sum += Number(digits[i]) * weight;
+  }
+  return (10 - (sum % 10)) % 10 === Number(digits[digits.length - 1]);
+}
+
+export function toGtin14(digits: string): string {
+  return digits.padStart(14, '0');
+}
+
+// The number at every GTIN length it fits without losing a non-zero digit,
+// longest first, plus the length it was typed at (an 11-digit UPC-A may be
+// stored that way too): 00012345678905 -> GTIN-14, EAN-13 and UPC-A forms
+export function gtinForms(digits: string): string[] {
+  const gtin14 = toGtin14(digits);
+  return [...new Set([14, 13, 12, digits.length, 8])]
+    .sort((a, b) => b - a)
+    .filter((length) => /^0*$/.test(gtin14.slice(0, 14 - length)))
+    .map((length) => gtin14.slice(14 - length));
+}
+
+// Barcodes need a valid check digit; an all-digit code without one is
+// treated as a SKU (or a mistyped barcode, which can't match anyway)
+export function detectIdentifierType(query: string): IdentifierType {
+  const compact = stripSeparators(query.trim());
+  if (/^\d+$/.test(compact) && BARCODE_LENGTHS.includes(compact.length)) {
+    if (!hasValidCheckDigit(compact)) return 'sku';
+    if (compact.length === 14) return 'gtin';
+    return compact.length === 13 || compact.length === 8 ? 'ean' : 'upc';
+  }
+  return PRODUCT_ID_PATTERN.test(compact) ? 'productId' : 'sku';
+}
+
+// Reads a query as the given type (SearchAnalyzer's identifierType), or
+// detects one. A barcode type is only honoured when the check digit is valid.
+export function parseIdentifier(
+  query: string,
+  type: IdentifierType = detectIdentifierType(query)
+): ParsedIdentifier {
+  const typed = query.trim();
+  const compact = stripSeparators(typed).toUpperCase();
+  const numeric = /^\d+$/.test(compact) && BARCODE_LENGTHS.includes(compact.length);
+  const checkDigitValid = numeric ? hasValidCheckDigit(compact) : undefined;
+
+  if (BARCODE_TYPES.includes(type) && checkDigitValid) {
+    return {
+      type,
+      normalized: toGtin14(compact),
+      // As typed too, for a code field that keeps the separators
+      values: Array.from(new Set([...gtinForms(compact), typed])),
+      fields: IDENTIFIER_FIELDS[type],
+      checkDigitValid,
+    };
+  }
+
+  const codeType = type === 'productId' ? type : 'sku';
+  return {
+    type: codeType,
+    normalized: compact,
+    // Separators may be part of a stored SKU, so try it as typed too
+    values: Array.from(new Set([compact, typed.toUpperCase(), typed])),
+    fields: IDENTIFIER_FIELDS[codeType],
+    ...(checkDigitValid !== undefined ? { checkDigitValid } : {}),
+  };
+}
+
+// Barcodes are whole numbers; only seller codes are matched by prefix
+export function supportsPrefixMatch(identifier: ParsedIdentifier): boolean {
+  return !BARCODE_TYPES.includes(identifier.type);
+}
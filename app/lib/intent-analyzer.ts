@@ -0,0 +1,170 @@
+// app/lib/intent-analyzer.ts
+import OpenAI from 'openai';
+import { getCatalogVocabulary } from './catalog-vocabulary';
+import { INTENT_FUNCTION_SCHEMA, validateIntentAnalysis } from './intent-schema';
+import { intentCache, normalizeQuery } from './search-cache';
+import { SearchStrategy } from './search-types';
+import type { IntentAnalysis } from './search-types';
+import { COLLECTION_NAME } from './typesense-config';
+
+// Turns a query into a structured IntentAnalysis with a language model.
+// Implementations don't throw: when the model can't be used they return a
+// placeholder marked degraded, which search ignores.
+export interface IntentAnalyzer {
+  readonly name: string;
+  analyze(query: string, collection?: string): Promise<IntentAnalysis>;
+}
+
+export class OpenAIIntentAnalyzer implements IntentAnalyzer {
+  readonly name = 'openai';
+  private client: OpenAI | null = null;
+
+  constructor(
+    readonly model = process.env.INTENT_MODEL || 'gpt-3.5-turbo',
+    private readonly apiKey = process.env.OPENAI_API_KEY
+  ) {}
+
+  async analyze(query: string, collection?: string): Promise<IntentAnalysis> {
+    const vocabularyCollection =
+      collection && collection !== 'all' ? collection : COLLECTION_NAME;
+    const cacheKey = { query: normalizeQuery(query), collection: vocabularyCollection };
+
+    try {
+      const cached = await intentCache.get(cacheKey);
+      if (cached) return cached;
+
+      const completionRequest = this.getClient().chat.completions.create({
+        model: this.model,
+        messages: [
+          {
+            role: 'system',
+            content: `You are a search intent analyzer for a food service/restaurant supply website. 
+      Analyze the user's search query and return a JSON response with:
+      - strategy: "exact" (ONLY for SKU/product IDs like "SKU123456"), "semantic" (for conceptual queries), or "keyword" (for product name searches)
+      - confidence: 0-1 score
+      - context: extracted context about the search
+      - suggestedTerms: additional search terms
+      - filters: extracted filters including price ranges
+      - cleanQuery: the search query with filter terms removed
+      
+      IMPORTANT: Only use "exact" strategy for actual product codes/SKUs that look like identifiers (e.g., "SKU123456", "P-12345", alphanumeric codes).
+      For product names like "cookie dough", "paper plates", etc., use "keyword" or "semantic" strategy.
+      
+      Extract price filters from phrases like:
+      - "under $X", "less than $X", "below $X" → maxPrice: X
+      - "over $X", "above $X", "more than $X" → minPrice: X
+      - "between $X and $Y", "$X-$Y" → minPrice: X, maxPrice: Y
+      - "around $X", "about $X" → minPrice: X*0.8, maxPrice: X*1.2
+      
+      Also extract other filters:
+      - Brand mentions → brand
+      - Category mentions → category
+      - Stock requirements ("in stock", "available") → inStock: true
+      - Special flags ("on sale", "discounted") → onSale: true
+      
+      Report your analysis by calling ${INTENT_FUNCTION_SCHEMA.name}.`,
+          },
+          {
+            role: 'user',
+            content: `Analyze this query: "${query}"
+      
+      Remember:
+      - "cookie dough" is a product name, NOT a product ID → use "keyword" or "semantic"
+      - Only use "exact" for things that look like codes: "SKU123", "P-4567", etc.
+      
+      Extract:
+      1. Price constraints (under/over/between amounts)
+      2. Brand names if mentioned
+      3. Categories if mentioned
+      4. Stock/availability requirements
+      5. The core search terms (with filter words removed)
+      
+      Example response for "cookie dough under $100":
+      {
+        "strategy": "keyword",
+        "confidence": 0.9,
+        "context": "User looking for cookie dough products with price constraint",
+        "suggestedTerms": ["chocolate chip", "sugar cookie", "edible"],
+        "filters": {
+          "maxPrice": 100
+        },
+        "cleanQuery": "cookie dough"
+      }`,
+          },
+        ],
+        tools: [{ type: 'function', function: INTENT_FUNCTION_SCHEMA as any }],
+        tool_choice: {
+          type: 'function',
+          function: { name: INTENT_FUNCTION_SCHEMA.name },
+        },
+        temperature: 0.3,
+        max_tokens: 300,
+      });
+
+      // Brand/category validation needs the catalog's vocabulary; load it
+      // while the model is thinking
+      const [completion, vocabulary] = await Promise.all([
+        completionRequest,
+        getCatalogVocabulary(vocabularyCollection),
+      ]);
+
+      const message = completion.choices[0].message;
+      const response = message.tool_calls?.[0]?.function.arguments ?? message.content;
+
+      let raw: unknown;
+      try {
+        raw = JSON.parse(response || '{}');
+      } catch (parseError) {
+        console.error('Failed to parse GPT response:', response);
+        return degradedIntent(query, 'Failed to parse AI analysis');
+      }
+
+      const { analysis, droppedFields } = validateIntentAnalysis(raw, query, vocabulary);
+      if (droppedFields.length > 0) {
+        console.warn('Dropped invalid intent fields:', droppedFields, raw);
+      }
+
+      // Only successful analyses are cached; fallbacks should be retried
+      await intentCache.set(cacheKey, analysis);
+      return analysis;
+    } catch (error: any) {
+      console.error('Error analyzing intent:', error);
+      return degradedIntent(query, `Intent analysis unavailable: ${error.message}`);
+    }
+  }
+
+  // Created on first use so a missing API key degrades analysis instead of
+  // failing at import
+  private getClient(): OpenAI {
+    if (!this.client) {
+      this.client = new OpenAI({ apiKey: this.apiKey });
+    }
+    return this.client;
+  }
+}
+
+export function degradedIntent(query: string, context: string): IntentAnalysis {
+  return {
+    strategy: SearchStrategy.KEYWORD,
+    confidence: 0.5,
+    context,
+    suggestedTerms: [],
+    filters: {},
+    cleanQuery: query,
+    degraded: true,
+  };
+}
+
+let intentAnalyzer: IntentAnalyzer | null = null;
+
+export function getIntentAnalyzer(): IntentAnalyzer {
+  if (!intentAnalyzer) {
+    intentAnalyzer = new OpenAIIntentAnalyzer();
+  }
+  return intentAnalyzer;
+}
+
+// Swap the analyzer at runtime, e.g. for another model provider
+export function setIntentAnalyzer(analyzer: IntentAnalyzer) {
+  intentAnalyzer = analyzer;
+}
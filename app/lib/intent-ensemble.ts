@@ -0,0 +1,180 @@
+// app/lib/intent-ensemble.ts
+import type {
+  AnalysisResult,
+  ExtractedFilters,
+  IntentAnalysis,
+  IntentSources,
+  SearchContext,
+} from './search-types';
+import { SearchStrategy } from './search-types';
+import { SearchAnalyzer } from './search-analyzer';
+import type { ParsedQuery } from './filter-parser';
+
+export interface EnsembleResult {
+  analysis: AnalysisResult;
+  extractedFilters: ExtractedFilters;
+  cleanQuery: string;
+  sources: IntentSources;
+}
+
+const MAX_CHIPS = 8;
+
+// Combines the local analyzer and rule-based filters with the (optional) LLM:
+// - a deterministic identifier from the local analyzer always wins
+// - the LLM may only choose "exact" for queries that look like identifiers
+// - rule-based filters win per field; the LLM adds fields they can't find
+// - contexts and suggestions are merged rather than picked
+export function combineIntentAnalyses(
+  query: string,
+  local: AnalysisResult,
+  parsed: ParsedQuery,
+  llm: IntentAnalysis | null,
+  analyzer: SearchAnalyzer
+): EnsembleResult {
+  const trimmedQuery = query.trim();
+
+  if (
+    local.strategy === SearchStrategy.EXACT_MATCH &&
+    analyzer.isDeterministicIdentifier(trimmedQuery)
+  ) {
+    return {
+      analysis: { ...local, queryTerms: [trimmedQuery] },
+      // Identifiers are looked up verbatim; nothing to strip or filter on
+      extractedFilters: {},
+      cleanQuery: trimmedQuery,
+      sources: allFrom('local'),
+    };
+  }
+
+  if (!llm) {
+    // Without the LLM to confirm it, a plain word that fits the loose SKU
+    // pattern ("cocoa") is a product search, not a code lookup
+    const analysis =
+      local.strategy === SearchStrategy.EXACT_MATCH
+        ? analyzer.analyzeText(trimmedQuery)
+        : local;
+    return {
+      analysis: {
+        ...analysis,
+        queryTerms: termsOf(parsed.cleanQuery || trimmedQuery),
+      },
+      extractedFilters: parsed.filters,
+      cleanQuery: parsed.cleanQuery,
+      sources: allFrom('local'),
+    };
+  }
+
+  const sources = allFrom('llm');
+
+  let strategy = llm.strategy;
+  if (
+    strategy === SearchStrategy.EXACT_MATCH &&
+    local.strategy !== SearchStrategy.EXACT_MATCH
+  ) {
+    // The model occasionally calls product names "exact"; trust the patterns
+    strategy = local.strategy;
+    sources.strategy = 'local';
+  }
+
+  let confidence = llm.confidence;
+  if (strategy === local.strategy) {
+    confidence = Math.max(llm.confidence, local.confidence);
+    sources.confidence = 'combined';
+  } else if (sources.strategy === 'local') {
+    confidence = local.confidence;
+    sources.confidence = 'local';
+  }
+
+  const identifierType =
+    strategy === SearchStrategy.EXACT_MATCH ? local.identifierType : null;
+  sources.identifierType = 'local';
+
+  const context = mergeContext(trimmedQuery, local.context, llm.context);
+  sources.context =
+    local.context && llm.context ? 'combined' : local.context ? 'local' : 'llm';
+
+  const suggestedChips = [
+    ...new Set([...llm.suggestedTerms, ...local.suggestedChips]),
+  ].slice(0, MAX_CHIPS);
+  sources.suggestedChips =
+    llm.suggestedTerms.length > 0 && local.suggestedChips.length > 0
+      ? 'combined'
+      : llm.suggestedTerms.length > 0
+        ? 'llm'
+        : 'local';
+
+  const localFields = definedKeys(parsed.filters);
+  const llmOnlyFields = definedKeys(llm.filters).filter(
+    (field) => !localFields.includes(field)
+  );
+  const extractedFilters: ExtractedFilters = { ...llm.filters, ...parsed.filters };
+  sources.filters =
+    localFields.length > 0 && llmOnlyFields.length > 0
+      ? 'combined'
+      : localFields.length > 0
+        ? 'local'
+        : 'llm';
+
+  // The LLM's cleanQuery is only needed when it found filters the parser
+  // didn't (a brand, a category); otherwise the parser's stripping stands
+  let cleanQuery = llm.cleanQuery || trimmedQuery;
+  if (localFields.length > 0 && llmOnlyFields.length === 0) {
+    cleanQuery = parsed.cleanQuery;
+    sources.cleanQuery = 'local';
+  }
+
+  return {
+    analysis: {
+      strategy,
+      confidence,
+      identifierType,
+      context,
+      suggestedChips,
+      queryTerms: termsOf(cleanQuery || trimmedQuery),
+    },
+    extractedFilters,
+    cleanQuery,
+    sources,
+  };
+}
+
+function mergeContext(
+  query: string,
+  local: SearchContext | null,
+  llmSummary: string
+): SearchContext | null {
+  if (!local && !llmSummary) return null;
+
+  const base: SearchContext = local ?? {
+    categories: [],
+    attributes: [],
+    intents: [],
+    descriptors: [],
+    confidence: 0,
+    originalQuery: query,
+  };
+
+  return llmSummary ? { ...base, summary: llmSummary } : base;
+}
+
+function termsOf(query: string): string[] {
+  return query.toLowerCase().split(/\s+/).filter(Boolean);
+}
+
+function definedKeys(filters: ExtractedFilters): string[] {
+  return Object.entries(filters)
+    .filter(([, value]) => value !== undefined)
+    .map(([key]) => key);
+}
+
+function allFrom(source: 'llm' | 'local'): IntentSources {
+  return {
+    strategy: source,
+    confidence: source,
+    identifierType: source,
+    context: source,
+    suggestedChips: source,
+    filters: source,
+    cleanQuery: source,
+  };
+}
@@ -0,0 +1,227 @@
+// app/lib/intent-schema.ts
+import type { ExtractedFilters, IntentAnalysis } from './search-types';
+import { SearchStrategy } from './search-types';
+import type { CatalogVocabulary } from './catalog-vocabulary';
+
+// JSON schema handed to the model as a function definition. Runtime
+// validation below is still authoritative; the model can ignore a schema.
+export const INTENT_FUNCTION_SCHEMA = {
+  name: 'report_search_intent',
+  description: 'Report the analyzed intent of a product search query',
+  parameters: {
+    type: 'object',
+    properties: {
+      strategy: { type: 'string', enum: ['exact', 'semantic', 'keyword'] },
+      confidence: { type: 'number', minimum: 0, maximum: 1 },
+      context: {
+        type: 'string',
+        description: 'One sentence describing what the user is looking for',
+      },
+      suggestedTerms: { type: 'array', items: { type: 'string' }, maxItems: 10 },
+      filters: {
+        type: 'object',
+        properties: {
+          minPrice: { type: 'number', minimum: 0 },
+          maxPrice: { type: 'number', minimum: 0 },
+          brand: { type: 'string' },
+          category: { type: 'string' },
+          inStock: { type: 'boolean' },
+          onSale: { type: 'boolean' },
+          attributes: { type: 'array', items: { type: 'string' } },
+        },
+      },
+      cleanQuery: {
+        type: 'string',
+        description: 'The query with filter phrases removed',
+      },
+    },
+    required: ['strategy', 'confidence', 'cleanQuery'],
+  },
+} as const;
+
+const MAX_SUGGESTED_TERMS = 10;
+const MAX_TEXT_LENGTH = 200;
+const MAX_PRICE = 1_000_000;
+
+interface ValidationResult {
+  analysis: IntentAnalysis;
+  droppedFields: string[];
+}
+
+// Coerces each field independently: one malformed field is dropped (or
+// defaulted) without discarding the rest of the analysis.
+export function validateIntentAnalysis(
+  raw: unknown,
+  query: string,
+  vocabulary?: CatalogVocabulary | null
+): ValidationResult {
+  const input = isRecord(raw) ? raw : {};
+  const dropped: string[] = [];
+
+  const strategy = coerceStrategy(input.strategy);
+  if (strategy === null) dropped.push('strategy');
+
+  const confidence = coerceNumber(input.confidence);
+  const validConfidence = confidence !== null && confidence >= 0 && confidence <= 1;
+  if (!validConfidence && input.confidence !== undefined) dropped.push('confidence');
+
+  const context = coerceText(input.context);
+  if (context === null && input.context !== undefined) dropped.push('context');
+
+  const suggestedTerms = coerceStringList(input.suggestedTerms);
+  if (suggestedTerms === null && input.suggestedTerms !== undefined) {
+    dropped.push('suggestedTerms');
+  }
+
+  const cleanQuery = coerceText(input.cleanQuery);
+  if (cleanQuery === null && input.cleanQuery !== undefined) dropped.push('cleanQuery');
+
+  const filters = validateFilters(input.filters, vocabulary, dropped);
+
+  return {
+    analysis: {
+      strategy: strategy ?? SearchStrategy.KEYWORD,
+      confidence: validConfidence ? confidence! : 0.5,
+      context: context ?? '',
+      suggestedTerms: (suggestedTerms ?? []).slice(0, MAX_SUGGESTED_TERMS),
+      filters,
+      cleanQuery: cleanQuery ?? query,
+      ...(dropped.length > 0 ? { droppedFields: dropped } : {}),
+    },
+    droppedFields: dropped,
+  };
+}
+
+function validateFilters(
+  raw: unknown,
+  vocabulary: CatalogVocabulary | null | undefined,
+  dropped: string[]
+): ExtractedFilters {
+  if (raw === undefined || raw === null) return {};
+  if (!isRecord(raw)) {
+    dropped.push('filters');
+    return {};
+  }
+
+  const filters: ExtractedFilters = {};
+
+  for (const bound of ['minPrice', 'maxPrice'] as const) {
+    if (raw[bound] === undefined || raw[bound] === null) continue;
+    const value = coerceNumber(raw[bound]);
+    if (value !== null && value >= 0 && value <= MAX_PRICE) {
+      filters[bound] = Math.round(value * 100) / 100;
+    } else {
+      dropped.push(`filters.${bound}`);
+    }
+  }
+
+  // "between 50 and 20" — keep the range, fix the order
+  if (
+    filters.minPrice !== undefined &&
+    filters.maxPrice !== undefined &&
+    filters.minPrice > filters.maxPrice
+  ) {
+    [filters.minPrice, filters.maxPrice] = [filters.maxPrice, filters.minPrice];
+  }
+
+  if (raw.brand !== undefined && raw.brand !== null) {
+    const brand = matchVocabulary(raw.brand, vocabulary?.brands);
+    if (brand) filters.brand = brand;
+    else dropped.push('filters.brand');
+  }
+
+  if (raw.category !== undefined && raw.category !== null) {
+    const category = matchVocabulary(raw.category, vocabulary?.categories);
+    if (category) filters.category = category;
+    else dropped.push('filters.category');
+  }
+
+  for (const flag of ['inStock', 'onSale'] as const) {
+    if (raw[flag] === undefined || raw[flag] === null) continue;
+    const value = coerceBoolean(raw[flag]);
+    if (value !== null) {
+      if (value) filters[flag] = true;
+    } else {
+      dropped.push(`filters.${flag}`);
+    }
+  }
+
+  if (raw.attributes !== undefined && raw.attributes !== null) {
+    const attributes = coerceStringList(raw.attributes);
+    if (attributes) {
+      const normalized = [...new Set(attributes.map((a) => a.toLowerCase()))];
+      if (normalized.length > 0) filters.attributes = normalized;
+    } else {
+      dropped.push('filters.attributes');
+    }
+  }
+
+  return filters;
+}
+
+function coerceStrategy(value: unknown): SearchStrategy | null {
+  if (typeof value !== 'string') return null;
+  switch (value.trim().toLowerCase()) {
+    case 'exact':
+    case 'exact_match':
+      return SearchStrategy.EXACT_MATCH;
+    case 'semantic':
+      return SearchStrategy.SEMANTIC;
+    case 'keyword':
+      return SearchStrategy.KEYWORD;
+    default:
+      return null;
+  }
+}
+
+// Accepts numbers and numeric strings such as "$1,299.99"
+function coerceNumber(value: unknown): number | null {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value !== 'string') return null;
+  const cleaned = value.replace(/[$,\s]/g, '');
+  if (!/^-?\d+(\.\d+)?$/.test(cleaned)) return null;
+  return parseFloat(cleaned);
+}
+
+function coerceBoolean(value: unknown): boolean | null {
+  if (typeof value === 'boolean') return value;
+  if (typeof value === 'string') {
+    const lowered = value.trim().toLowerCase();
+    if (lowered === 'true' || lowered === 'yes') return true;
+    if (lowered === 'false' || lowered === 'no') return false;
+  }
+  return null;
+}
+
+function coerceText(value: unknown): string | null {
+  if (typeof value !== 'string') return null;
+  const trimmed = value.trim();
+  if (!trimmed || trimmed.length > MAX_TEXT_LENGTH) return null;
+  return trimmed;
+}
+
+// Accepts string arrays (dropping non-string items) and comma-separated strings
+function coerceStringList(value: unknown): string[] | null {
+  const items =
+    typeof value === 'string'
+      ? value.split(',')
+      : Array.isArray(value)
+        ? value.filter((v): v is string => typeof v === 'string')
+        : null;
+  if (items === null) return null;
+
+  return [...new Set(items.map((v) => v.trim()).filter((v) => v && v.length <= MAX_TEXT_LENGTH))];
+}
+
+// Without a vocabulary any plausible string passes; with one, only values the
+// catalog actually contains do, rewritten to the catalog's spelling
+function matchVocabulary(value: unknown, known?: Map<string, string>): string | null {
+  const text = coerceText(value);
+  if (!text) return null;
+  if (!known || known.size === 0) return text;
+  return known.get(text.toLowerCase()) ?? null;
+}
+
+function isRecord(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
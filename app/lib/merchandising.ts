@@ -0,0 +1,638 @@
+// app/lib/merchandising.ts
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { Client } from 'typesense';
+import { getTypesenseClient } from './typesense-config';
+import { normalizeQuery } from './search-cache';
+import { renderFilter } from './filter-builder';
+import { slugify } from './slugify';
+import type { Product } from './search-types';
+
+// What has to be true of a search for a rule to fire. Query triggers compare
+// against the query as typed and after filter phrases were removed; category
+// triggers compare against the category detected by intent analysis.
+export type TriggerType = 'query_exact' | 'query_contains' | 'category';
+
+export interface RuleTrigger {
+  type: TriggerType;
+  value: string;
+}
+
+export type BoostField = 'brand' | 'category' | 'attribute';
+
+// weight > 1 boosts, weight < 1 buries; applied to the ranking score
+export interface BoostAction {
+  field: BoostField;
+  value: string;
+  weight: number;
+}
+
+export interface PinAction {
+  sku: string;
+  position: number; // 1-based across all pages
+}
+
+export interface MerchandisingRule {
+  id: string;
+  name: string;
+  collection: string;
+  enabled: boolean;
+  trigger: RuleTrigger;
+  pins: PinAction[];
+  hide: string[]; // SKUs
+  boosts: BoostAction[];
+  startsAt?: string; // ISO 8601; open-ended when missing
+  endsAt?: string;
+  updatedAt: string;
+}
+
+// The parts of a search that triggers are matched against
+export interface MerchandisingContext {
+  query: string;
+  cleanQuery: string;
+  category?: string;
+}
+
+export class MerchandisingValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MerchandisingValidationError';
+  }
+}
+
+const TRIGGER_TYPES: TriggerType[] = ['query_exact', 'query_contains', 'category'];
+const BOOST_FIELDS: BoostField[] = ['brand', 'category', 'attribute'];
+const CATEGORY_FIELDS = ['category', 'category_l1', 'category_l2', 'category_l3', 'category_l4'] as const;
+const MAX_PIN_POSITION = 100;
+const MAX_SKUS = 100;
+const MAX_BOOSTS = 20;
+const MAX_BOOST_WEIGHT = 10;
+// Typesense overrides created for rules carry this prefix so hand-made
+// overrides are never touched
+const OVERRIDE_PREFIX = 'merch-';
+
+// Where rules are kept. Rules are few and read on every search, so stores
+// load them all at once.
+export interface MerchandisingStore {
+  readonly name: string;
+  load(): Promise<MerchandisingRule[]>;
+  save(rules: MerchandisingRule[]): Promise<void>;
+}
+
+// One JSON file, cached in memory after the first read. Edits made by
+// another instance show up after a restart; share a store for multi-instance
+// deployments.
+export class FileMerchandisingStore implements MerchandisingStore {
+  readonly name = 'file';
+  private cached: Promise<MerchandisingRule[]> | null = null;
+
+  constructor(
+    private readonly filePath = process.env.MERCHANDISING_RULES_FILE ||
+      path.join(process.cwd(), '.data', 'merchandising-rules.json')
+  ) {}
+
+  load(): Promise<MerchandisingRule[]> {
+    if (!this.cached) {
+      this.cached = this.read().catch((error) => {
+        this.cached = null;
+        throw error;
+      });
+    }
+    return this.cached;
+  }
+
+  async save(rules: MerchandisingRule[]): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    // Write then rename so a crash can't leave half a file behind
+    const temporary = `${this.filePath}.tmp`;
+    await fs.writeFile(temporary, JSON.stringify(rules, null, 2), 'utf8');
+    await fs.rename(temporary, this.filePath);
+    this.cached = Promise.resolve(rules);
+  }
+
+  private async read(): Promise<MerchandisingRule[]> {
+    try {
+      return JSON.parse(await fs.readFile(this.filePath, 'utf8'));
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return [];
+      throw error;
+    }
+  }
+}
+
+export class MemoryMerchandisingStore implements MerchandisingStore {
+  readonly name = 'memory';
+  private rules: MerchandisingRule[] = [];
+
+  async load(): Promise<MerchandisingRule[]> {
+    return this.rules;
+  }
+
+  async save(rules: MerchandisingRule[]): Promise<void> {
+    this.rules = rules;
+  }
+}
+
+let merchandisingStore: MerchandisingStore | null = null;
+
+export function getMerchandisingStore(): MerchandisingStore {
+  if (!merchandisingStore) {
+    merchandisingStore =
+      process.env.MERCHANDISING_STORE === 'memory'
+        ? new MemoryMerchandisingStore()
+        : new FileMerchandisingStore();
+  }
+  return merchandisingStore;
+}
+
+// Swap the store at runtime, e.g. for one backed by a shared database
+export function setMerchandisingStore(store: MerchandisingStore) {
+  merchandisingStore = store;
+}
+
+export async function listRules(
+  collection?: string,
+  store: MerchandisingStore = getMerchandisingStore()
+): Promise<MerchandisingRule[]> {
+  const rules = await store.load();
+  return collection ? rules.filter((rule) => rule.collection === collection) : rules;
+}
+
+// Changes whenever a rule is added, edited or deleted, or starts or ends;
+// part of the search cache key so cached responses don't outlive the rules
+// they were built with
+export function rulesVersion(rules: MerchandisingRule[], now = Date.now()): string {
+  const latest = rules.reduce((max, rule) => (rule.updatedAt > max ? rule.updatedAt : max), '');
+  const active = rules
+    .filter((rule) => isRuleActive(rule, now))
+    .map((rule) => rule.id)
+    .sort();
+  return `${rules.length}:${latest}:${active.join(',')}`;
+}
+
+// none: the rule has nothing an override can express, so none exists
+export type OverrideSync = 'synced' | 'none' | 'failed';
+
+// Edits load every rule and save them all back, so they run one at a time;
+// two concurrent saves would otherwise each drop the other's rule
+let pendingEdit: Promise<unknown> = Promise.resolve();
+
+function serializeEdit<T>(edit: () => Promise<T>): Promise<T> {
+  const result = pendingEdit.then(edit);
+  pendingEdit = result.catch(() => {});
+  return result;
+}
+
+export function saveRule(
+  input: unknown,
+  client: Client = getTypesenseClient(),
+  store: MerchandisingStore = getMerchandisingStore()
+): Promise<{ rule: MerchandisingRule; override: OverrideSync }> {
+  const rule = validateRule(input);
+  return serializeEdit(async () => {
+    const rules = await store.load();
+    const previous = rules.find((r) => r.id === rule.id);
+    await store.save([...rules.filter((r) => r.id !== rule.id), rule]);
+
+    // A rule moved to another collection leaves its old override behind
+    if (previous && previous.collection !== rule.collection) {
+      await removeOverride(previous.collection, previous.id, client);
+    }
+    return { rule, override: await syncOverride(rule, client) };
+  });
+}
+
+export function deleteRule(
+  id: string,
+  client: Client = getTypesenseClient(),
+  store: MerchandisingStore = getMerchandisingStore()
+): Promise<MerchandisingRule | null> {
+  return serializeEdit(async () => {
+    const rules = await store.load();
+    const rule = rules.find((r) => r.id === id);
+    if (!rule) return null;
+
+    await store.save(rules.filter((r) => r.id !== id));
+    await removeOverride(rule.collection, rule.id, client);
+    return rule;
+  });
+}
+
+// Validates untrusted input (the admin form) into a rule. A missing id is
+// derived from the name, so saving a rule under the same name replaces it.
+export function validateRule(input: unknown, now = new Date()): MerchandisingRule {
+  if (!input || typeof input !== 'object') {
+    throw new MerchandisingValidationError('Rule must be an object');
+  }
+  const raw = input as Record<string, any>;
+
+  const name = typeof raw.name === 'string' ? raw.name.trim() : '';
+  if (!name) throw new MerchandisingValidationError('name is required');
+
+  const collection = typeof raw.collection === 'string' ? raw.collection.trim() : '';
+  if (!collection) throw new MerchandisingValidationError('collection is required');
+
+  const id = slugify(typeof raw.id === 'string' && raw.id.trim() ? raw.id : name);
+  if (!id) throw new MerchandisingValidationError('Could not derive a rule id');
+
+  const trigger = raw.trigger || {};
+  if (!TRIGGER_TYPES.includes(trigger.type)) {
+    throw new MerchandisingValidationError(`trigger.type must be one of ${TRIGGER_TYPES.join(', ')}`);
+  }
+  const triggerValue = typeof trigger.value === 'string' ? normalizeQuery(trigger.value) : '';
+  if (!triggerValue) throw new MerchandisingValidationError('trigger.value is required');
+
+  const pins = validatePins(raw.pins);
+  const hide = validateSkus(raw.hide, 'hide');
+  const boosts = validateBoosts(raw.boosts);
+
+  if (pins.length === 0 && hide.length === 0 && boosts.length === 0) {
+    throw new MerchandisingValidationError('A rule needs at least one pin, hidden SKU or boost');
+  }
+  const pinned = new Set(pins.map((pin) => pin.sku));
+  const conflict = hide.find((sku) => pinned.has(sku));
+  if (conflict) {
+    throw new MerchandisingValidationError(`${conflict} can't be both pinned and hidden`);
+  }
+
+  const startsAt = validateDate(raw.startsAt, 'startsAt');
+  const endsAt = validateDate(raw.endsAt, 'endsAt');
+  if (startsAt && endsAt && endsAt <= startsAt) {
+    throw new MerchandisingValidationError('endsAt must be after startsAt');
+  }
+
+  return {
+    id,
+    name,
+    collection,
+    enabled: raw.enabled !== false,
+    trigger: { type: trigger.type, value: triggerValue },
+    pins,
+    hide,
+    boosts,
+    ...(startsAt ? { startsAt } : {}),
+    ...(endsAt ? { endsAt } : {}),
+    updatedAt: now.toISOString(),
+  };
+}
+
+export function isRuleActive(rule: MerchandisingRule, now = Date.now()): boolean {
+  if (!rule.enabled) return false;
+  if (rule.startsAt && Date.parse(rule.startsAt) > now) return false;
+  if (rule.endsAt && Date.parse(rule.endsAt) <= now) return false;
+  return true;
+}
+
+// Active rules for the searched collections whose trigger fires
+export function matchRules(
+  rules: MerchandisingRule[],
+  collections: string[],
+  context: MerchandisingContext,
+  now = Date.now()
+): MerchandisingRule[] {
+  const queries = new Set([normalizeQuery(context.query), normalizeQuery(context.cleanQuery)]);
+  const category = context.category ? normalizeQuery(context.category) : undefined;
+
+  return rules.filter((rule) => {
+    if (!collections.includes(rule.collection) || !isRuleActive(rule, now)) return false;
+    const { type, value } = rule.trigger;
+    switch (type) {
+      case 'query_exact':
+        return queries.has(value);
+      case 'query_contains':
+        return Array.from(queries).some((query) => containsPhrase(query, value));
+      case 'category':
+        return category === value;
+    }
+  });
+}
+
+// Post-ranking step: drops hidden SKUs and scales the scores of boosted or
+// buried products. Callers re-sort afterwards. Each rule only touches
+// products from its own collection.
+export function applyRuleActions(
+  products: Product[],
+  rules: MerchandisingRule[],
+  defaultCollection: string
+): Product[] {
+  if (rules.length === 0) return products;
+  const inCollection = (product: Product, rule: MerchandisingRule) =>
+    (product.source_collection || defaultCollection) === rule.collection;
+
+  return products
+    .filter(
+      (product) =>
+        !rules.some((rule) => inCollection(product, rule) && rule.hide.includes(product.sku))
+    )
+    .map((product) => {
+      let weight = 1;
+      for (const rule of rules) {
+        if (!inCollection(product, rule)) continue;
+        for (const boost of rule.boosts) {
+          if (boostMatches(product, boost)) weight *= boost.weight;
+        }
+      }
+      if (weight === 1) return product;
+      return {
+        ...product,
+        score: (product.score || 0) * weight,
+        ...(product.debug ? { debug: { ...product.debug, merchandisingBoost: weight } } : {}),
+      };
+    });
+}
+
+// Pinned SKUs from every matched rule; the first rule to claim a position or
+// SKU keeps it
+export function collectPins(rules: MerchandisingRule[]): Array<PinAction & { collection: string }> {
+  const positions = new Set<number>();
+  const skus = new Set<string>();
+  const pins: Array<PinAction & { collection: string }> = [];
+
+  for (const rule of rules) {
+    for (const pin of rule.pins) {
+      if (positions.has(pin.position) || skus.has(pin.sku)) continue;
+      positions.add(pin.position);
+      skus.add(pin.sku);
+      pins.push({ ...pin, collection: rule.collection });
+    }
+  }
+  return pins.sort((a, b) => a.position - b.position);
+}
+
+// How many results to retrieve, from the first, so placePins can cut out the
+// requested page: every result up to its end plus one per pin, since each
+// pin pushes the results behind it down a position and possibly onto the
+// next page. Null when no pins apply and the page can be retrieved alone.
+export function pinnedRetrievalLimit(
+  rules: MerchandisingRule[],
+  page: number,
+  limit: number
+): number | null {
+  const pins = collectPins(rules).length;
+  return pins > 0 ? page * limit + pins : null;
+}
+
+// Puts pinned products at their positions and cuts the requested page out.
+// `products` must start at the first result and reach pinnedRetrievalLimit;
+// with no pins they're returned as is. Pinned products that weren't
+// retrieved are fetched by SKU, so pins also work for items the query didn't
+// match; like the Typesense override, they still have to pass the search's
+// filters.
+export async function placePins(
+  products: Product[],
+  rules: MerchandisingRule[],
+  options: {
+    page: number;
+    limit: number;
+    filterBy?: string;
+    federated?: boolean;
+    client?: Client;
+  }
+): Promise<Product[]> {
+  const { page, limit, filterBy, federated, client } = options;
+  const pins = collectPins(rules);
+  if (pins.length === 0) return products;
+
+  const pinnedSkus = new Set(pins.map((pin) => pin.sku));
+  const pageStart = (page - 1) * limit;
+  // Pins on earlier pages count too: they're what shifts this page
+  const placed = pins.filter((pin) => pin.position <= pageStart + limit);
+
+  const retrieved = new Map(products.map((product) => [product.sku, product]));
+  const missing = placed.filter((pin) => !retrieved.has(pin.sku));
+  const fetched =
+    missing.length > 0
+      ? await fetchProductsBySku(missing, filterBy, client ?? getTypesenseClient())
+      : new Map();
+
+  const results = products.filter((product) => !pinnedSkus.has(product.sku));
+  for (const pin of placed) {
+    const product = retrieved.get(pin.sku) || fetched.get(pin.sku);
+    if (!product) continue;
+    const pinned: Product = {
+      ...product,
+      ...(federated && !product.source_collection ? { source_collection: pin.collection } : {}),
+      ...(product.debug ? { debug: { ...product.debug, pinnedPosition: pin.position } } : {}),
+    };
+    results.splice(Math.min(pin.position - 1, results.length), 0, pinned);
+  }
+
+  return results.slice(pageStart, pageStart + limit);
+}
+
+async function fetchProductsBySku(
+  pins: Array<PinAction & { collection: string }>,
+  filterBy: string | undefined,
+  client: Client
+): Promise<Map<string, Product>> {
+  const byCollection = new Map<string, string[]>();
+  for (const pin of pins) {
+    byCollection.set(pin.collection, [...(byCollection.get(pin.collection) || []), pin.sku]);
+  }
+
+  const products = new Map<string, Product>();
+  try {
+    const results = await client.multiSearch.perform({
+      searches: Array.from(byCollection, ([collection, skus]) => ({
+        collection,
+        q: '*',
+        filter_by: [renderFilter({ op: 'eq', field: 'sku', value: skus }), filterBy]
+          .filter(Boolean)
+          .join(' && '),
+        per_page: skus.length,
+        exclude_fields: 'embedding,embedding_text',
+      })) as any[],
+    });
+
+    for (const result of (results.results || []) as any[]) {
+      if (result.error) {
+        console.warn('Pinned product lookup failed:', result.error);
+        continue;
+      }
+      for (const hit of result.hits || []) {
+        products.set(hit.document.sku, hit.document as Product);
+      }
+    }
+  } catch (error) {
+    // A missing pin is better than a failed search
+    console.error('Pinned product lookup failed:', error);
+  }
+  return products;
+}
+
+// Query-triggered pins and hides are mirrored into a Typesense override so
+// they also apply server-side: hidden products drop out of found counts,
+// facets and later pages, and pins surface for queries they don't match.
+// Boosts and category triggers have no override equivalent and only run in
+// the post-ranking step.
+export async function syncOverride(
+  rule: MerchandisingRule,
+  client: Client = getTypesenseClient()
+): Promise<OverrideSync> {
+  const queryTriggered = rule.trigger.type !== 'category';
+  if (!rule.enabled || !queryTriggered || (rule.pins.length === 0 && rule.hide.length === 0)) {
+    return (await removeOverride(rule.collection, rule.id, client)) ? 'none' : 'failed';
+  }
+
+  try {
+    const documentIds = await resolveDocumentIds(
+      rule.collection,
+      [...rule.pins.map((pin) => pin.sku), ...rule.hide],
+      client
+    );
+
+    await client
+      .collections(rule.collection)
+      .overrides()
+      .upsert(OVERRIDE_PREFIX + rule.id, {
+        rule: {
+          query: rule.trigger.value,
+          match: rule.trigger.type === 'query_exact' ? 'exact' : 'contains',
+        },
+        includes: rule.pins
+          .filter((pin) => documentIds.has(pin.sku))
+          .map((pin) => ({ id: documentIds.get(pin.sku)!, position: pin.position })),
+        excludes: rule.hide
+          .filter((sku) => documentIds.has(sku))
+          .map((sku) => ({ id: documentIds.get(sku)! })),
+        // Pinned products still have to pass the search's filters
+        filter_curated_hits: true,
+        // Later rules for the same query keep applying
+        stop_processing: false,
+        ...(rule.startsAt ? { effective_from_ts: toUnixSeconds(rule.startsAt) } : {}),
+        ...(rule.endsAt ? { effective_to_ts: toUnixSeconds(rule.endsAt) } : {}),
+      });
+    return 'synced';
+  } catch (error) {
+    console.error(`Override sync failed for rule ${rule.id}:`, error);
+    return 'failed';
+  }
+}
+
+async function removeOverride(
+  collection: string,
+  ruleId: string,
+  client: Client
+): Promise<boolean> {
+  try {
+    await client
+      .collections(collection)
+      .overrides(OVERRIDE_PREFIX + ruleId)
+      .delete();
+    return true;
+  } catch (error: any) {
+    if (error.httpStatus === 404) return true;
+    console.error(`Override removal failed for rule ${ruleId}:`, error);
+    return false;
+  }
+}
+
+// Overrides reference Typesense document ids, not SKUs
+async function resolveDocumentIds(
+  collection: string,
+  skus: string[],
+  client: Client
+): Promise<Map<string, string>> {
+  const unique = [...new Set(skus)];
+  const results = await client.multiSearch.perform({
+    searches: [
+      {
+        collection,
+        q: '*',
+        filter_by: renderFilter({ op: 'eq', field: 'sku', value: unique }),
+        include_fields: 'id,sku',
+        per_page: unique.length,
+      } as any,
+    ],
+  });
+
+  const result = results.results && (results.results[0] as any);
+  if (!result || result.error) {
+    throw new Error(result?.error || 'Empty SKU lookup response');
+  }
+  return new Map(
+    (result.hits || []).map((hit: any) => [String(hit.document.sku), String(hit.document.id)])
+  );
+}
+
+function boostMatches(product: Product, boost: BoostAction): boolean {
+  const value = boost.value;
+  switch (boost.field) {
+    case 'brand':
+      return normalizeQuery(product.brand || '') === value;
+    case 'category':
+      return CATEGORY_FIELDS.some((field) => normalizeQuery(product[field] || '') === value);
+    case 'attribute':
+      return containsPhrase(normalizeQuery(product.food_properties || ''), value);
+  }
+}
+
+// Whole-word containment, so "pan" doesn't fire on "panko"
+function containsPhrase(text: string, phrase: string): boolean {
+  return ` ${text.replace(/[^a-z0-9]+/g, ' ')} `.includes(` ${phrase.replace(/[^a-z0-9]+/g, ' ')} `);
+}
+
+function validatePins(value: unknown): PinAction[] {
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value)) throw new MerchandisingValidationError('pins must be an array');
+  if (value.length > MAX_SKUS) throw new MerchandisingValidationError(`At most ${MAX_SKUS} pins`);
+
+  const positions = new Set<number>();
+  return value.map((pin: any) => {
+    const sku = typeof pin?.sku === 'string' ? pin.sku.trim() : '';
+    const position = Number(pin?.position);
+    if (!sku) throw new MerchandisingValidationError('Every pin needs a sku');
+    if (!Number.isInteger(position) || position < 1 || position > MAX_PIN_POSITION) {
+      throw new MerchandisingValidationError(
+        `Pin position for ${sku} must be a whole number from 1 to ${MAX_PIN_POSITION}`
+      );
+    }
+    if (positions.has(position)) {
+      throw new MerchandisingValidationError(`Two pins share position ${position}`);
+    }
+    positions.add(position);
+    return { sku, position };
+  });
+}
+
+function validateSkus(value: unknown, field: string): string[] {
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value)) throw new MerchandisingValidationError(`${field} must be an array`);
+  const skus = [
+    ...new Set(value.map((sku) => (typeof sku === 'string' ? sku.trim() : '')).filter(Boolean)),
+  ];
+  if (skus.length > MAX_SKUS) throw new MerchandisingValidationError(`At most ${MAX_SKUS} SKUs in ${field}`);
+  return skus;
+}
+
+function validateBoosts(value: unknown): BoostAction[] {
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value)) throw new MerchandisingValidationError('boosts must be an array');
+  if (value.length > MAX_BOOSTS) throw new MerchandisingValidationError(`At most ${MAX_BOOSTS} boosts`);
+
+  return value.map((boost: any) => {
+    if (!BOOST_FIELDS.includes(boost?.field)) {
+      throw new MerchandisingValidationError(`boost field must be one of ${BOOST_FIELDS.join(', ')}`);
+    }
+    const match = typeof boost.value === 'string' ? normalizeQuery(boost.value) : '';
+    if (!match) throw new MerchandisingValidationError('Every boost needs a value');
+    const weight = Number(boost.weight);
+    if (!(weight > 0 && weight <= MAX_BOOST_WEIGHT) || weight === 1) {
+      throw new MerchandisingValidationError(
+        `Boost weight for ${match} must be above 0 and at most ${MAX_BOOST_WEIGHT}, and not 1`
+      );
+    }
+    return { field: boost.field, value: match, weight };
+  });
+}
+
+function validateDate(value: unknown, field: string): string | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  const time = typeof value === 'string' ? Date.parse(value) : NaN;
+  if (isNaN(time)) throw new MerchandisingValidationError(`${field} must be an ISO 8601 date`);
+  return new Date(time).toISOString();
+}
+
+function toUnixSeconds(iso: string): number {
+  return Math.floor(Date.parse(iso) / 1000);
+}
@@ -0,0 +1,49 @@
+// app/lib/pagination.ts
+import { createHash } from 'crypto';
+
+// Typesense rejects per_page above 250
+export const MAX_PER_PAGE = 250;
+
+interface CursorPayload {
+  page: number;
+  limit: number;
+  fingerprint: string;
+}
+
+// A cursor is only valid for the query, collection and filters it was issued for
+export function queryFingerprint(parts: Array<string | undefined>): string {
+  return createHash('sha1')
+    .update(parts.map((p) => p || '').join('\u0000'))
+    .digest('hex')
+    .slice(0, 12);
+}
+
+export function encodeCursor(payload: CursorPayload): string {
+  return Buffer.from(JSON.stringify(payload)).toString('base64url');
+}
+
+// Returns null for malformed cursors or cursors issued for another query
+export function decodeCursor(
+  cursor: string,
+  fingerprint: string
+): CursorPayload | null {
+  try {
+    const payload = JSON.parse(Buffer.from(cursor, 'base64url').toString());
+    if (
+      payload.fingerprint !== fingerprint ||
+      !Number.isInteger(payload.page) ||
+      payload.page < 1 ||
+      !Number.isInteger(payload.limit) ||
+      payload.limit < 1
+    ) {
+      return null;
+    }
+    return payload;
+  } catch {
+    return null;
+  }
+}
+
+export function totalPagesFor(found: number, limit: number): number {
+  return Math.max(1, Math.ceil(found / limit));
+}
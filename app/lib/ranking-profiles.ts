@@ -0,0 +1,312 @@
+// app/lib/ranking-profiles.ts
+import { readFileSync } from 'fs';
+import path from 'path';
+import type { Product, SearchParameters } from './search-types';
+
+// A named ranking recipe: what Typesense matches on and sorts by, plus the
+// score adjustments applied to the retrieved products
+export interface RankingProfile {
+  name: string;
+  description?: string;
+  sortBy: string; // Keyword retrieval sort_by
+  queryBy: Record<string, number>; // Field -> query_by_weights entry
+  parameters: SearchParameters;
+  recencyField?: string; // Unix time (s or ms) or ISO date on the document
+  recencyHalfLifeDays?: number;
+}
+
+export interface RankingConfig {
+  defaultProfile: string;
+  collections: Record<string, string>; // Collection -> profile name
+  profiles: Record<string, RankingProfile>;
+}
+
+export class RankingProfileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RankingProfileError';
+  }
+}
+
+const CONFIG_PATH =
+  process.env.RANKING_PROFILES_FILE ||
+  path.join(process.cwd(), 'config', 'ranking-profiles.json');
+
+const SEARCHABLE_FIELDS = [
+  'name',
+  'brand',
+  'manufacturer',
+  'category',
+  'category_l1',
+  'category_l2',
+  'category_l3',
+  'category_l4',
+  'description',
+  'sku',
+  'mpn',
+];
+const SORTABLE_FIELDS = ['_text_match', 'sales_count', 'is_in_stock', 'price', 'sale_price', 'rating_avg'];
+const MAX_SORT_FIELDS = 3; // Typesense limit
+const MAX_FIELD_WEIGHT = 127; // Typesense limit
+const DEFAULT_HALF_LIFE_DAYS = 90;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Allowed range of each parameter
+const PARAMETER_RANGES: Record<Exclude<keyof SearchParameters, 'stockPriority'>, [number, number]> = {
+  salesBoost: [0, 5],
+  relevanceThreshold: [0, 1],
+  priceConsideration: [0, 1],
+  brandBoost: [0, 5],
+  recencyFactor: [0, 5],
+};
+
+// Used when the config file is missing or invalid, so search keeps working
+const BUILT_IN_CONFIG: RankingConfig = {
+  defaultProfile: 'relevance',
+  collections: {},
+  profiles: {
+    relevance: {
+      name: 'relevance',
+      description: 'Textual relevance first, with a moderate lift for popular items',
+      sortBy: '_text_match:desc,sales_count:desc',
+      queryBy: { name: 4, brand: 3, manufacturer: 2, category: 1, description: 1, sku: 1 },
+      parameters: {
+        salesBoost: 0.5,
+        relevanceThreshold: 0,
+        stockPriority: false,
+        priceConsideration: 0,
+        brandBoost: 0.5,
+        recencyFactor: 0,
+      },
+    },
+  },
+};
+
+let config: RankingConfig | null = null;
+
+// Read once per process; restart to pick up edits to the file
+export function getRankingConfig(): RankingConfig {
+  if (!config) {
+    try {
+      config = parseRankingConfig(JSON.parse(readFileSync(CONFIG_PATH, 'utf8')));
+    } catch (error: any) {
+      console.error(`Using the built-in ranking profile (${CONFIG_PATH}):`, error.message);
+      config = BUILT_IN_CONFIG;
+    }
+  }
+  return config;
+}
+
+// Swap the config at runtime, e.g. to load profiles from elsewhere
+export function setRankingConfig(next: RankingConfig) {
+  config = next;
+}
+
+export function listRankingProfiles(): RankingProfile[] {
+  return Object.values(getRankingConfig().profiles);
+}
+
+// A requested profile wins, then the collection's, then the default.
+// Throws RankingProfileError for a requested name that doesn't exist.
+export function resolveRankingProfile(requested?: string, collection?: string): RankingProfile {
+  const { defaultProfile, collections, profiles } = getRankingConfig();
+  if (requested) {
+    if (!profiles[requested]) {
+      throw new RankingProfileError(
+        `Unknown ranking profile "${requested}"; expected one of ${Object.keys(profiles).join(', ')}`
+      );
+    }
+    return profiles[requested];
+  }
+  return profiles[(collection && collections[collection]) || defaultProfile];
+}
+
+export function queryByParams(profile: RankingProfile): { query_by: string; query_by_weights: string } {
+  const fields = Object.entries(profile.queryBy);
+  return {
+    query_by: fields.map(([field]) => field).join(','),
+    query_by_weights: fields.map(([, weight]) => weight).join(','),
+  };
+}
+
+// Scales scores by the profile's brand, price and recency parameters and
+// returns the products re-sorted by score. Runs on the retrieved page after
+// every strategy, so fused and federated results are treated alike. Sales
+// popularity is applied earlier, where each strategy computes its score.
+// Only profiles that sort by relevance are re-scored: the others already
+// come back in their sort_by order (best-sellers first, say), which a sort
+// by score would undo.
+export function applyRankingSignals(
+  products: Product[],
+  query: string,
+  profileFor: (product: Product) => RankingProfile
+): Product[] {
+  const normalizedQuery = ` ${normalizeText(query)} `;
+  const medianPrice = median(products.map(effectivePrice).filter((p): p is number => p !== undefined));
+  const now = Date.now();
+  let rescored = false;
+
+  const adjusted = products.map((product) => {
+    const profile = profileFor(product);
+    if (!sortsByRelevance(profile)) return product;
+    rescored = true;
+    const signals = {
+      brand: brandMultiplier(product, normalizedQuery, profile.parameters.brandBoost),
+      price: priceMultiplier(product, medianPrice, profile.parameters.priceConsideration),
+      recency: recencyMultiplier(product, profile, now),
+    };
+    const multiplier = signals.brand * signals.price * signals.recency;
+    if (multiplier === 1) return product;
+    return {
+      ...product,
+      score: (product.score || 0) * multiplier,
+      ...(product.debug ? { debug: { ...product.debug, rankingSignals: signals } } : {}),
+    };
+  });
+
+  if (!rescored) return products;
+  // Tie-break on SKU so equal scores keep the same order across pages
+  return adjusted.sort((a, b) => (b.score || 0) - (a.score || 0) || a.sku.localeCompare(b.sku));
+}
+
+// Text relevance leads the profile's sort_by, so the client score (text
+// match or fused rank, times popularity) is what orders its results
+export function sortsByRelevance(profile: RankingProfile): boolean {
+  return profile.sortBy.split(',')[0].trim().startsWith('_text_match');
+}
+
+// The query names the product's brand: "hershey's cocoa" for Hershey's
+function brandMultiplier(product: Product, normalizedQuery: string, brandBoost: number): number {
+  if (!brandBoost || !product.brand) return 1;
+  const brand = normalizeText(product.brand);
+  return brand && normalizedQuery.includes(` ${brand} `) ? 1 + brandBoost : 1;
+}
+
+// (median / price) ^ weight: cheaper than the page's median lifts the
+// score, dearer lowers it, and weight 0 leaves it alone
+function priceMultiplier(product: Product, medianPrice: number | undefined, weight: number): number {
+  const price = effectivePrice(product);
+  if (!weight || !medianPrice || !price) return 1;
+  return Math.pow(medianPrice / price, weight);
+}
+
+// 1 + factor for a brand-new item, halving with every half-life of age.
+// Documents without the field are left alone.
+function recencyMultiplier(product: Product, profile: RankingProfile, now: number): number {
+  const factor = profile.parameters.recencyFactor;
+  if (!factor || !profile.recencyField) return 1;
+
+  const value = (product as Record<string, any>)[profile.recencyField];
+  const timestamp =
+    typeof value === 'number'
+      ? value < 1e12 ? value * 1000 : value // Seconds or milliseconds
+      : typeof value === 'string'
+        ? Date.parse(value)
+        : NaN;
+  if (isNaN(timestamp)) return 1;
+
+  const ageDays = Math.max(0, now - timestamp) / DAY_MS;
+  const halfLife = profile.recencyHalfLifeDays || DEFAULT_HALF_LIFE_DAYS;
+  return 1 + factor * Math.pow(0.5, ageDays / halfLife);
+}
+
+function effectivePrice(product: Product): number | undefined {
+  const price = product.sale_price || product.price;
+  return price && price > 0 ? price : undefined;
+}
+
+function median(values: number[]): number | undefined {
+  if (values.length === 0) return undefined;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+// "Hershey's" and "hersheys" compare equal
+function normalizeText(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/['’]/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+// Validates the config file so a typo fails loudly at startup rather than
+// as a Typesense error on every search
+export function parseRankingConfig(input: unknown): RankingConfig {
+  if (!input || typeof input !== 'object') {
+    throw new RankingProfileError('Ranking config must be an object');
+  }
+  const raw = input as Record<string, any>;
+
+  if (!raw.profiles || typeof raw.profiles !== 'object') {
+    throw new RankingProfileError('Ranking config needs a "profiles" object');
+  }
+  const profiles: Record<string, RankingProfile> = {};
+  for (const [name, profile] of Object.entries<any>(raw.profiles)) {
+    profiles[name] = parseProfile(name, profile);
+  }
+
+  const defaultProfile = raw.defaultProfile;
+  if (typeof defaultProfile !== 'string' || !profiles[defaultProfile]) {
+    throw new RankingProfileError(`defaultProfile must name one of the profiles`);
+  }
+
+  const collections: Record<string, string> = {};
+  for (const [collection, name] of Object.entries<any>(raw.collections || {})) {
+    if (typeof name !== 'string' || !profiles[name]) {
+      throw new RankingProfileError(`Collection ${collection} uses unknown profile "${name}"`);
+    }
+    collections[collection] = name;
+  }
+
+  return { defaultProfile, collections, profiles };
+}
+
+function parseProfile(name: string, raw: any): RankingProfile {
+  const fail = (message: string) => new RankingProfileError(`Profile "${name}": ${message}`);
+  if (!raw || typeof raw !== 'object') throw fail('must be an object');
+
+  const sortBy = String(raw.sortBy || '');
+  const sortFields = sortBy.split(',').filter(Boolean);
+  if (sortFields.length === 0 || sortFields.length > MAX_SORT_FIELDS) {
+    throw fail(`sortBy needs 1 to ${MAX_SORT_FIELDS} fields`);
+  }
+  for (const part of sortFields) {
+    const [field, direction] = part.split(':');
+    if (!SORTABLE_FIELDS.includes(field) || (direction !== 'asc' && direction !== 'desc')) {
+      throw fail(`invalid sortBy entry "${part}"`);
+    }
+  }
+
+  const queryBy: Record<string, number> = {};
+  for (const [field, weight] of Object.entries<any>(raw.queryBy || {})) {
+    if (!SEARCHABLE_FIELDS.includes(field)) throw fail(`queryBy field "${field}" is not searchable`);
+    if (!Number.isInteger(weight) || weight < 0 || weight > MAX_FIELD_WEIGHT) {
+      throw fail(`queryBy weight for ${field} must be a whole number from 0 to ${MAX_FIELD_WEIGHT}`);
+    }
+    queryBy[field] = weight;
+  }
+  if (Object.keys(queryBy).length === 0) throw fail('queryBy needs at least one field');
+
+  const parameters = { ...raw.parameters } as SearchParameters;
+  for (const [key, [min, max]] of Object.entries(PARAMETER_RANGES)) {
+    const value = (parameters as any)[key];
+    if (typeof value !== 'number' || value < min || value > max) {
+      throw fail(`parameters.${key} must be a number from ${min} to ${max}`);
+    }
+  }
+  parameters.stockPriority = !!parameters.stockPriority;
+
+  return {
+    name,
+    ...(typeof raw.description === 'string' ? { description: raw.description } : {}),
+    sortBy,
+    queryBy,
+    parameters,
+    ...(typeof raw.recencyField === 'string' ? { recencyField: raw.recencyField } : {}),
+    ...(typeof raw.recencyHalfLifeDays === 'number' && raw.recencyHalfLifeDays > 0
+      ? { recencyHalfLifeDays: raw.recencyHalfLifeDays }
+      : {}),
+  };
+}
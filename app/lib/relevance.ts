@@ -0,0 +1,76 @@
+// app/lib/relevance.ts
+
+// Normalizes each strategy's raw score to a 0-1 relevance so one
+// relevanceThreshold means the same thing whichever strategy ran:
+//   keyword - text_match relative to the best text_match for the query
+//   vector  - cosine similarity, 1 - vector_distance
+//   hybrid  - whichever of the two is higher, so a hit that is relevant
+//             either lexically or semantically survives
+// Identifier lookups are never cut off.
+
+export function clampThreshold(value: unknown): number {
+  const threshold = typeof value === 'number' ? value : parseFloat(String(value));
+  return isNaN(threshold) ? 0 : Math.min(1, Math.max(0, threshold));
+}
+
+// Typesense's cosine distance runs 0 (same direction) to 2 (opposite), so a
+// minimum similarity maps directly to a maximum distance
+export function vectorDistanceThreshold(threshold: number): number | undefined {
+  return threshold > 0 ? 1 - threshold : undefined;
+}
+
+// Appends distance_threshold to a vector_query's parameter list
+export function withDistanceThreshold(vectorQuery: string, threshold: number): string {
+  const distance = vectorDistanceThreshold(threshold);
+  return distance === undefined
+    ? vectorQuery
+    : vectorQuery.replace(/\)$/, `, distance_threshold:${distance.toFixed(4)})`);
+}
+
+// A one-hit search for the query's best text_match. It goes in the same
+// multi_search as the page it normalizes, so it costs no extra round trip.
+export function textMatchProbe(searchParams: Record<string, any>): Record<string, any> {
+  const { vector_query, sort_by, page, per_page, ...keywordParams } = searchParams;
+  return {
+    ...keywordParams,
+    q: keywordParams.q || '*',
+    sort_by: '_text_match:desc',
+    per_page: 1,
+    page: 1,
+    include_fields: 'sku',
+  };
+}
+
+export function bestTextMatch(probeResult: any): number {
+  return probeResult && !probeResult.error ? probeResult.hits?.[0]?.text_match || 0 : 0;
+}
+
+export function textRelevance(hit: any, best: number): number {
+  if (!hit.text_match || !best) return 0;
+  return Math.min(1, hit.text_match / best);
+}
+
+export function vectorRelevance(hit: any): number {
+  return hit.vector_distance === undefined ? 0 : Math.max(0, 1 - hit.vector_distance);
+}
+
+export function hitRelevance(hit: any, best: number): number {
+  return Math.max(textRelevance(hit, best), vectorRelevance(hit));
+}
+
+// Drops hits below the threshold. A threshold of 0 keeps everything. If the
+// probe failed, the page's own best hit stands in for the query's; with no
+// score to normalize at all (a "*" browse) nothing is dropped.
+export function filterByRelevance(
+  hits: any[],
+  threshold: number,
+  best: number
+): { hits: any[]; removed: number } {
+  if (threshold <= 0) return { hits, removed: 0 };
+  const reference = best || Math.max(0, ...hits.map((hit) => hit.text_match || 0));
+  if (!reference && !hits.some((hit) => hit.vector_distance !== undefined)) {
+    return { hits, removed: 0 };
+  }
+  const kept = hits.filter((hit) => hitRelevance(hit, reference) >= threshold);
+  return { hits: kept, removed: hits.length - kept.length };
+}
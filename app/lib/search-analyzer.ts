@@ -4,6 +4,7 @@ import type {
   SearchContext 
 } from './search-types';
 import { SearchStrategy } from './search-types';
+import { detectIdentifierType } from './identifiers';
 
 export class SearchAnalyzer {
   // Patterns for exact product identifiers
@@ -46,6 +47,11 @@ export class SearchAnalyzer {
     ]
   };
 
+  // Attribute vocabulary, shared with the rule-based filter parser
+  get attributeTerms(): readonly string[] {
+    return this.contextKeywords.attributes;
+  }
+
   analyze(query: string): AnalysisResult {
     const cleanQuery = query.trim();
     
@@ -54,13 +60,20 @@ export class SearchAnalyzer {
       return {
         strategy: SearchStrategy.EXACT_MATCH,
         confidence: 1.0,
-        identifierType: this.getIdentifierType(cleanQuery),
+        identifierType: detectIdentifierType(cleanQuery),
         context: null,
         suggestedChips: [],
         queryTerms: [cleanQuery]
       };
     }
 
+    return this.analyzeText(cleanQuery);
+  }
+
+  // Keyword or semantic analysis, for queries that aren't taken as identifiers
+  analyzeText(query: string): AnalysisResult {
+    const cleanQuery = query.trim();
+
     // Extract context from query
     const context = this.extractContext(cleanQuery);
     
@@ -87,6 +100,13 @@ export class SearchAnalyzer {
     };
   }
 
+  // Identifiers no product name would produce: single codes containing a digit.
+  // Plain words like "cookies" also fit the loose SKU pattern, so they don't count.
+  public isDeterministicIdentifier(query: string): boolean {
+    const cleanQuery = query.trim();
+    return this.isProductIdentifier(cleanQuery) && /\d/.test(cleanQuery);
+  }
+
   private isProductIdentifier(query: string): boolean {
     // Must be a single token (no spaces)
     if (query.includes(' ')) return false;
@@ -101,15 +121,6 @@ export class SearchAnalyzer {
     );
   }
 
-  private getIdentifierType(query: string): string {
-    for (const [type, pattern] of Object.entries(this.productIdPatterns)) {
-      if (pattern.test(query)) {
-        return type;
-      }
-    }
-    return 'alphanumeric';
-  }
-
   private extractContext(query: string): SearchContext {
     const tokens = query.toLowerCase().split(/\s+/);
     const foundContext = {
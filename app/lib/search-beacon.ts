@@ -0,0 +1,43 @@
+// app/lib/search-beacon.ts
+// Browser-side reporting of result interactions to /api/events
+
+const SESSION_KEY = 'search-session-id';
+
+export interface ResultInteraction {
+  type: 'impression' | 'click';
+  searchId: string;
+  sku: string;
+  rank: number;
+  collection?: string;
+}
+
+// One ID per browser tab, kept across reloads so searches and clicks in the
+// same visit can be tied together
+export function getSearchSessionId(): string | undefined {
+  if (typeof window === 'undefined') return undefined;
+  try {
+    let id = window.sessionStorage.getItem(SESSION_KEY);
+    if (!id) {
+      id = crypto.randomUUID();
+      window.sessionStorage.setItem(SESSION_KEY, id);
+    }
+    return id;
+  } catch {
+    // Storage can be disabled (private mode, sandboxed iframes)
+    return undefined;
+  }
+}
+
+export function sendResultInteraction(interaction: ResultInteraction): void {
+  if (typeof window === 'undefined') return;
+
+  const body = JSON.stringify({ ...interaction, sessionId: getSearchSessionId() });
+
+  // sendBeacon survives the page unloading, which matters for clicks that
+  // navigate away; fall back to a keepalive fetch where it's unavailable
+  if (navigator.sendBeacon?.('/api/events', body)) return;
+
+  fetch('/api/events', { method: 'POST', body, keepalive: true }).catch(() => {
+    // Tracking is best-effort
+  });
+}
@@ -0,0 +1,240 @@
+// app/lib/search-cache.ts
+import { createHash } from 'crypto';
+import Redis from 'ioredis';
+import type { IntentAnalysis, SearchResponse, SuggestResponse } from './search-types';
+
+// Storage behind the caches. Values are serialized JSON strings so the same
+// interface works for in-process and networked stores.
+export interface CacheBackend {
+  readonly name: string;
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string, ttlSeconds: number): Promise<void>;
+  delete(key: string): Promise<void>;
+  size?(): number;
+}
+
+export class MemoryCacheBackend implements CacheBackend {
+  readonly name = 'memory';
+  private readonly entries = new Map<string, { value: string; expiresAt: number }>();
+
+  constructor(private readonly maxEntries = parseInt(process.env.SEARCH_CACHE_MAX_ENTRIES || '1000')) {}
+
+  async get(key: string): Promise<string | null> {
+    const entry = this.entries.get(key);
+    if (!entry) return null;
+
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return null;
+    }
+
+    // Re-insert to mark as most recently used
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry.value;
+  }
+
+  async set(key: string, value: string, ttlSeconds: number): Promise<void> {
+    this.entries.delete(key);
+    // Map iteration order is insertion order, so the first key is least recently used
+    while (this.entries.size >= this.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) break;
+      this.entries.delete(oldest);
+    }
+    this.entries.set(key, { value, expiresAt: Date.now() + ttlSeconds * 1000 });
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  size(): number {
+    return this.entries.size;
+  }
+}
+
+// Minimal surface of a Redis client (ioredis, node-redis v4 legacy mode, Upstash...)
+export interface RedisLikeClient {
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string, mode: 'EX', seconds: number): Promise<unknown>;
+  del(key: string): Promise<unknown>;
+}
+
+export class RedisCacheBackend implements CacheBackend {
+  readonly name = 'redis';
+
+  constructor(
+    private readonly client: RedisLikeClient,
+    private readonly prefix = process.env.SEARCH_CACHE_PREFIX || 'search-app:'
+  ) {}
+
+  async get(key: string): Promise<string | null> {
+    return this.client.get(this.prefix + key);
+  }
+
+  async set(key: string, value: string, ttlSeconds: number): Promise<void> {
+    await this.client.set(this.prefix + key, value, 'EX', Math.max(1, Math.round(ttlSeconds)));
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.del(this.prefix + key);
+  }
+}
+
+export function normalizeQuery(query: string): string {
+  return query.trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+export interface CacheStats {
+  namespace: string;
+  enabled: boolean;
+  ttlSeconds: number;
+  hits: number;
+  misses: number;
+  errors: number;
+  hitRate: number;
+}
+
+// A namespaced view over the shared backend with its own TTL and counters
+export class SearchCache<T> {
+  private hits = 0;
+  private misses = 0;
+  private errors = 0;
+
+  constructor(
+    readonly namespace: string,
+    private readonly ttlSeconds: number,
+    private readonly enabled = true
+  ) {}
+
+  async get(keyParts: unknown): Promise<T | null> {
+    if (!this.enabled) return null;
+
+    try {
+      const value = await getCacheBackend().get(this.key(keyParts));
+      if (value === null) {
+        this.misses++;
+        return null;
+      }
+      this.hits++;
+      return JSON.parse(value) as T;
+    } catch (error) {
+      // A broken cache must never break search
+      this.errors++;
+      this.misses++;
+      console.error(`Cache read failed (${this.namespace}):`, error);
+      return null;
+    }
+  }
+
+  async set(keyParts: unknown, value: T): Promise<void> {
+    if (!this.enabled) return;
+
+    try {
+      await getCacheBackend().set(this.key(keyParts), JSON.stringify(value), this.ttlSeconds);
+    } catch (error) {
+      this.errors++;
+      console.error(`Cache write failed (${this.namespace}):`, error);
+    }
+  }
+
+  async getOrSet(keyParts: unknown, load: () => Promise<T>): Promise<T> {
+    const cached = await this.get(keyParts);
+    if (cached !== null) return cached;
+
+    const value = await load();
+    await this.set(keyParts, value);
+    return value;
+  }
+
+  stats(): CacheStats {
+    const total = this.hits + this.misses;
+    return {
+      namespace: this.namespace,
+      enabled: this.enabled,
+      ttlSeconds: this.ttlSeconds,
+      hits: this.hits,
+      misses: this.misses,
+      errors: this.errors,
+      hitRate: total > 0 ? this.hits / total : 0,
+    };
+  }
+
+  private key(keyParts: unknown): string {
+    const digest = createHash('sha1').update(JSON.stringify(keyParts)).digest('hex');
+    return `${this.namespace}:${digest}`;
+  }
+}
+
+let cacheBackend: CacheBackend | null = null;
+
+export function getCacheBackend(): CacheBackend {
+  if (!cacheBackend) {
+    cacheBackend = createCacheBackend();
+  }
+  return cacheBackend;
+}
+
+// Swap the backend at runtime, e.g. to share a Redis client created elsewhere
+export function setCacheBackend(backend: CacheBackend) {
+  cacheBackend = backend;
+}
+
+function createCacheBackend(): CacheBackend {
+  if (process.env.SEARCH_CACHE_BACKEND === 'redis') {
+    if (!process.env.REDIS_URL) {
+      console.error('SEARCH_CACHE_BACKEND=redis but REDIS_URL is not set; using memory cache');
+      return new MemoryCacheBackend();
+    }
+    return new RedisCacheBackend(createRedisClient(process.env.REDIS_URL));
+  }
+  return new MemoryCacheBackend();
+}
+
+// A cache must never hold a search up: fail fast while Redis is down (the
+// caches count that as a miss) instead of queueing commands until it's back
+function createRedisClient(url: string): Redis {
+  const client = new Redis(url, {
+    connectTimeout: parseInt(process.env.REDIS_CONNECT_TIMEOUT_MS || '1000'),
+    maxRetriesPerRequest: 1,
+    enableOfflineQueue: false,
+  });
+  client.on('error', (error) => {
+    console.error('Redis cache error:', error.message);
+  });
+  return client;
+}
+
+export const embeddingCache = new SearchCache<number[]>(
+  'embedding',
+  parseInt(process.env.EMBEDDING_CACHE_TTL || '86400')
+);
+
+export const intentCache = new SearchCache<IntentAnalysis>(
+  'intent',
+  parseInt(process.env.INTENT_CACHE_TTL || '3600')
+);
+
+export const searchResponseCache = new SearchCache<SearchResponse>(
+  'search',
+  parseInt(process.env.SEARCH_CACHE_TTL || '300'),
+  process.env.ENABLE_SEARCH_CACHE === 'true'
+);
+
+// Typeahead results go stale quickly but are requested on every keystroke
+export const suggestCache = new SearchCache<SuggestResponse>(
+  'suggest',
+  parseInt(process.env.SUGGEST_CACHE_TTL || '60')
+);
+
+export function getCacheStats() {
+  const backend = getCacheBackend();
+  return {
+    backend: backend.name,
+    entries: backend.size ? backend.size() : undefined,
+    caches: [embeddingCache, intentCache, searchResponseCache, suggestCache].map((c) =>
+      c.stats()
+    ),
+  };
+}
@@ -0,0 +1,1848 @@
+// app/lib/search-service.ts
+import type { Client } from 'typesense';
+import { getTypesenseClient, COLLECTION_NAME } from './typesense-config';
+import { SearchAnalyzer } from './search-analyzer';
+import { buildFacetFilter, buildFacetParams, parseFacetCounts } from './facets';
+import {
+  MAX_PER_PAGE,
+  decodeCursor,
+  encodeCursor,
+  queryFingerprint,
+  totalPagesFor,
+} from './pagination';
+import {
+  checkEmbeddingDimensions,
+  embedQuery,
+  getEmbeddingProvider,
+} from './embedding-provider';
+import type { EmbeddingProvider } from './embedding-provider';
+import { getIntentAnalyzer } from './intent-analyzer';
+import type { IntentAnalyzer } from './intent-analyzer';
+import { searchResponseCache } from './search-cache';
+import type { SearchCache } from './search-cache';
+import { combineIntentAnalyses } from './intent-ensemble';
+import { parseQueryFilters } from './filter-parser';
+import { resolveSearchCollections } from './collections';
+import { applyCorrections, suggestSpelling } from './spelling';
+import type { SpellingCorrection } from './spelling';
+import { filterRelaxations, sortByPriceProximity } from './zero-result-recovery';
+import {
+  applyRuleActions,
+  listRules,
+  matchRules,
+  pinnedRetrievalLimit,
+  placePins,
+  rulesVersion,
+} from './merchandising';
+import type { MerchandisingRule, MerchandisingStore } from './merchandising';
+import {
+  applyRankingSignals,
+  queryByParams,
+  resolveRankingProfile,
+} from './ranking-profiles';
+import type { RankingProfile } from './ranking-profiles';
+import { applyVariantStrategy, variantOptions } from './experiments';
+import type { ExperimentAssignment } from './experiments';
+import {
+  bestTextMatch,
+  clampThreshold,
+  filterByRelevance,
+  textMatchProbe,
+  withDistanceThreshold,
+} from './relevance';
+import { federateResults, mergeFacetResults } from './federated-search';
+import {
+  isIdentifierType,
+  parseIdentifier,
+  supportsPrefixMatch,
+} from './identifiers';
+import type { ParsedIdentifier } from './identifiers';
+import { and, extractedFiltersToNode, or, renderFilter } from './filter-builder';
+import type { FilterField, FilterNode } from './filter-builder';
+import type {
+  ExtractedFilters,
+  FacetResult,
+  IntentAnalysis,
+  IntentSources,
+  DidYouMean,
+  IdentifierLookupInfo,
+  Product,
+  RecoveryInfo,
+  SearchOptions,
+  SearchResponse,
+  AnalysisResult,
+  ScoreBreakdown,
+} from './search-types';
+import { SearchStrategy } from './search-types';
+
+const DEFAULT_LIMIT = parseInt(process.env.DEFAULT_SEARCH_LIMIT || '24');
+const MAX_LIMIT = parseInt(process.env.MAX_SEARCH_LIMIT || '100');
+// The LLM only enhances the rule-based analysis; it can be switched off
+const LLM_INTENT_ENABLED = process.env.ENABLE_LLM_INTENT !== 'false';
+const DEFAULT_HYBRID_ALPHA = parseFloat(
+  process.env.HYBRID_SEARCH_ALPHA || '0.6'
+);
+// Corrections at least this confident replace a query that finds no more
+// than SPELLING_AUTO_APPLY_MAX_HITS; the rest are only offered as "did you mean"
+const SPELLING_AUTO_APPLY_CONFIDENCE = parseFloat(
+  process.env.SPELLING_AUTO_APPLY_CONFIDENCE || '0.8'
+);
+const SPELLING_AUTO_APPLY_MAX_HITS = parseInt(
+  process.env.SPELLING_AUTO_APPLY_MAX_HITS || '2'
+);
+// Standard reciprocal-rank fusion damping constant
+const RRF_K = 60;
+
+// The clients the pipeline talks to. Each defaults to the app's shared
+// instance; pass fakes to run the pipeline without Typesense or OpenAI.
+export interface SearchServiceClients {
+  typesense?: Client;
+  intent?: IntentAnalyzer | null; // null: rule-based analysis only
+  embeddings?: EmbeddingProvider;
+  responseCache?: SearchCache<SearchResponse> | null; // null: never cached
+  merchandising?: MerchandisingStore; // The shared store when omitted
+  logger?: SearchLogger;
+}
+
+// Where the service reports progress and the failures it recovers from (a
+// strategy falling back, a federated collection that's down). Defaults to
+// the console.
+export type SearchLogger = Pick<Console, 'log' | 'warn' | 'error'>;
+
+export interface SearchRequestContext {
+  clientFilters?: FilterNode | null; // Already validated
+  experiment?: ExperimentAssignment | null;
+}
+
+export interface SearchOutcome {
+  response: SearchResponse;
+  options: SearchOptions; // After variant overrides, clamping and cursors
+  // Absent for cached responses
+  analysis?: { confidence: number; extractedFilters: ExtractedFilters };
+}
+
+interface RetrievalResult {
+  results: Product[];
+  found: number; // Total matches across all pages
+  removed?: number; // Hits on this page dropped by the relevance threshold
+  // The threshold dropped hits after retrieval, which Typesense's found
+  // still counts on the pages that weren't retrieved
+  foundIsUpperBound?: boolean;
+  // Windowed retrievals (federated, pinned, client-fused) fetch from the
+  // first result and stop at MAX_PER_PAGE, so pages past that come back
+  // short even though found counts more. Absent when every match is reachable.
+  reachable?: number;
+  identifierLookup?: IdentifierLookupInfo;
+  // Failures the retrieval got past by falling back or returning nothing
+  degraded?: string[];
+}
+
+interface CollectionRetrieval extends RetrievalResult {
+  collection: string;
+}
+
+const EMPTY_RETRIEVAL: RetrievalResult = { results: [], found: 0 };
+
+const errorMessage = (error: unknown) =>
+  error instanceof Error ? error.message : String(error);
+
+function withDegradation(
+  retrieval: RetrievalResult,
+  ...messages: string[]
+): RetrievalResult {
+  const degraded = [...(retrieval.degraded || []), ...messages];
+  return degraded.length > 0 ? { ...retrieval, degraded } : retrieval;
+}
+
+// Identifier lookup tiers, best first
+const MATCH_TIERS: IdentifierLookupInfo['match'][] = [
+  'exact',
+  'prefix',
+  'fallback',
+  'none',
+];
+
+// What the analyze stage learned about the query
+interface QueryUnderstanding {
+  analysis: AnalysisResult;
+  extractedFilters: ExtractedFilters;
+  cleanQuery: string;
+  sources: IntentSources;
+  didYouMean?: DidYouMean;
+  spelling?: SpellingCorrection; // Of cleanQuery, behind didYouMean
+  collections: string[];
+}
+
+interface SearchPlan {
+  searchOptions: SearchOptions;
+  facetFilter: FilterNode | null;
+  ranking: RankingProfile;
+  relevanceThreshold: number;
+}
+
+interface RerankContext {
+  options: SearchOptions;
+  query: QueryUnderstanding;
+  matchedRules: MerchandisingRule[];
+  recovery?: RecoveryInfo;
+  filterBy?: string;
+  page: number;
+  limit: number;
+}
+
+// The /api/search pipeline: analyze -> build filters -> retrieve -> merge
+// -> rerank -> post-process. Spelling vocabulary, the collection list and
+// merchandising rules are read through their own modules, which cache them;
+// each is handed this service's Typesense client.
+export class SearchService {
+  private readonly typesense: Client;
+  private readonly intent: IntentAnalyzer | null;
+  private readonly embeddings?: EmbeddingProvider;
+  private readonly responseCache: SearchCache<SearchResponse> | null;
+  private readonly merchandising?: MerchandisingStore;
+  private readonly logger: SearchLogger;
+  private readonly analyzer = new SearchAnalyzer();
+  // Per collection: does it take this service's query embeddings?
+  private readonly embeddingChecks = new Map<string, Promise<boolean>>();
+
+  constructor(clients: SearchServiceClients = {}) {
+    this.typesense = clients.typesense ?? getTypesenseClient();
+    this.intent =
+      clients.intent !== undefined
+        ? clients.intent
+        : LLM_INTENT_ENABLED
+          ? getIntentAnalyzer()
+          : null;
+    this.embeddings = clients.embeddings;
+    this.responseCache =
+      clients.responseCache !== undefined
+        ? clients.responseCache
+        : searchResponseCache;
+    this.merchandising = clients.merchandising;
+    this.logger = clients.logger ?? console;
+  }
+
+  // Throws RankingProfileError for an unknown profile name
+  async search(
+    input: SearchOptions,
+    context: SearchRequestContext = {}
+  ): Promise<SearchOutcome> {
+    const startTime = Date.now();
+    const { experiment } = context;
+    const clientFilters = context.clientFilters ?? null;
+    const options: SearchOptions = {
+      ...input,
+      ...(experiment ? variantOptions(experiment.variant) : {}),
+      limit: Math.min(input.limit || DEFAULT_LIMIT, MAX_LIMIT),
+      page: Math.max(1, parseInt(String(input.page)) || 1),
+    };
+    resolveRankingProfile(options.rankingProfile);
+
+    // Cursors are bound to everything that changes the result set
+    const fingerprint = queryFingerprint([
+      options.query,
+      options.collection,
+      JSON.stringify(options.filters || {}),
+      JSON.stringify(options.facetFilters || {}),
+      String(!!options.stockPriority),
+      String(options.salesBoost),
+      String(options.alpha),
+      String(options.spellCorrect !== false),
+      options.rankingProfile || '',
+      String(options.relevanceThreshold),
+      // A variant's strategy override isn't visible in the options
+      experiment ? `${experiment.experiment.id}:${experiment.variant.name}` : '',
+    ]);
+    if (options.cursor) {
+      const cursor = decodeCursor(options.cursor, fingerprint);
+      if (cursor) {
+        options.page = cursor.page;
+        options.limit = Math.min(cursor.limit, MAX_LIMIT);
+      } else {
+        this.logger.warn('Ignoring cursor issued for a different query');
+      }
+    }
+
+    const merchandisingRules = await this.loadMerchandisingRules();
+
+    // The fingerprint already covers query, collection, filters and salesBoost
+    const cacheKey = {
+      fingerprint,
+      page: options.page,
+      limit: options.limit,
+      merchandising: rulesVersion(merchandisingRules),
+    };
+    // Debug breakdowns aren't cached, so a debug request always re-scores
+    const cachedResponse =
+      options.debug || !this.responseCache
+        ? null
+        : await this.responseCache.get(cacheKey);
+    if (cachedResponse) {
+      return {
+        options,
+        response: {
+          ...cachedResponse,
+          cached: true,
+          searchTime: (Date.now() - startTime) / 1000,
+        },
+      };
+    }
+
+    const query = await this.analyze(options, experiment);
+    const { analysis, collections } = query;
+    const plan = this.buildFilters(options, query, clientFilters);
+    const { searchOptions } = plan;
+
+    // Only semantic retrieval needs a vector; a client-supplied one is
+    // still honoured for older callers
+    if (
+      analysis.strategy === SearchStrategy.SEMANTIC &&
+      !searchOptions.queryEmbedding?.length
+    ) {
+      searchOptions.queryEmbedding = await this.generateQueryEmbedding(
+        query.cleanQuery || options.query,
+        collections
+      );
+    }
+
+    // Facet counts are fetched alongside retrieval; identifier lookups skip them
+    const isExact = analysis.strategy === SearchStrategy.EXACT_MATCH;
+    let facetsPromise: Promise<FacetResult[]> = isExact
+      ? Promise.resolve([])
+      : this.fetchCollectionFacets(searchOptions, collections);
+
+    // Merchandising rules don't apply to identifier lookups
+    const matchedRules = isExact
+      ? []
+      : matchRules(merchandisingRules, collections, {
+          query: options.query,
+          cleanQuery: query.cleanQuery,
+          category: query.extractedFilters.category,
+        });
+
+    // Pins move results between pages, so a pinned search retrieves from the
+    // first result and placePins cuts the page out. Like federation, that
+    // window is capped at one Typesense page.
+    const page = searchOptions.page || 1;
+    const limit = searchOptions.limit || DEFAULT_LIMIT;
+    const pinnedLimit = pinnedRetrievalLimit(matchedRules, page, limit);
+    const windowOptions: SearchOptions = pinnedLimit
+      ? { ...searchOptions, page: 1, limit: Math.min(pinnedLimit, MAX_PER_PAGE) }
+      : searchOptions;
+
+    let retrieval = await this.retrieveAndMerge(
+      windowOptions,
+      collections,
+      (opts) => this.runStrategy(opts, analysis)
+    );
+
+    let retrievalOptions = windowOptions;
+
+    // The spelling vocabulary is only a sample of the catalog, so a word
+    // missing from it may well be spelled right: a confident correction
+    // replaces the query only when the query as typed finds next to nothing
+    // and the correction finds more
+    const { spelling, didYouMean } = query;
+    if (
+      spelling &&
+      didYouMean &&
+      options.spellCorrect !== false &&
+      spelling.confidence >= SPELLING_AUTO_APPLY_CONFIDENCE &&
+      retrieval.found <= SPELLING_AUTO_APPLY_MAX_HITS
+    ) {
+      const correctedOptions: SearchOptions = {
+        ...windowOptions,
+        query: spelling.corrected,
+        ...(analysis.strategy === SearchStrategy.SEMANTIC
+          ? {
+              queryEmbedding: await this.generateQueryEmbedding(
+                spelling.corrected,
+                collections
+              ),
+            }
+          : {}),
+      };
+      const corrected = await this.retrieveAndMerge(
+        correctedOptions,
+        collections,
+        (opts) => this.runStrategy(opts, analysis)
+      );
+      if (corrected.found > retrieval.found) {
+        retrieval = corrected;
+        retrievalOptions = correctedOptions;
+        query.cleanQuery = spelling.corrected;
+        query.didYouMean = { ...didYouMean, applied: true };
+        facetsPromise = this.fetchCollectionFacets(correctedOptions, collections);
+      }
+    }
+
+    // Identifier lookups already fall back to a lenient search
+    let recovery: RecoveryInfo | undefined;
+    let appliedFilters = query.extractedFilters;
+    if (retrieval.found === 0 && !isExact) {
+      const recovered = await this.recoverZeroResults(
+        windowOptions,
+        analysis,
+        collections,
+        clientFilters,
+        plan.facetFilter
+      );
+      if (recovered) {
+        retrieval = withDegradation(
+          recovered.retrieval,
+          ...(retrieval.degraded || [])
+        );
+        recovery = recovered.recovery;
+        appliedFilters = recovered.options.extractedFilters || {};
+        retrievalOptions = recovered.options;
+        facetsPromise = this.fetchCollectionFacets(recovered.options, collections);
+      }
+    }
+
+    const results = await this.rerank(retrieval.results, {
+      options,
+      query,
+      matchedRules,
+      recovery,
+      filterBy: retrievalOptions.filterBy,
+      page,
+      limit,
+    });
+
+    // An upper bound gives no page count, only that later pages may hold more.
+    // Pages stop where a windowed retrieval does.
+    const { foundIsUpperBound } = retrieval;
+    const reachable = Math.min(
+      retrieval.reachable ?? retrieval.found,
+      pinnedLimit ? MAX_PER_PAGE : Infinity
+    );
+    const response: SearchResponse = {
+      success: true,
+      sessionId: options.sessionId,
+      results,
+      count: results.length,
+      found: retrieval.found,
+      page,
+      ...(foundIsUpperBound
+        ? {}
+        : { totalPages: totalPagesFor(reachable, limit) }),
+      nextCursor:
+        page * limit < reachable
+          ? encodeCursor({ page: page + 1, limit, fingerprint })
+          : null,
+      searchTime: (Date.now() - startTime) / 1000,
+      strategy: analysis.strategy,
+      cleanQuery: query.cleanQuery,
+      suggestedChips: analysis.suggestedChips,
+      appliedFilters, // Include what filters were applied
+      facets: await facetsPromise,
+      ...(collections.length > 1 ? { collections } : {}),
+      ...(recovery ? { recovery } : {}),
+      ...(retrieval.identifierLookup
+        ? { identifierLookup: retrieval.identifierLookup }
+        : {}),
+      ...(query.didYouMean ? { didYouMean: query.didYouMean } : {}),
+      ...(matchedRules.length > 0
+        ? { merchandising: matchedRules.map((rule) => rule.id) }
+        : {}),
+      rankingProfile: plan.ranking.name,
+      ...(experiment
+        ? {
+            experiment: {
+              id: experiment.experiment.id,
+              variant: experiment.variant.name,
+            },
+          }
+        : {}),
+      ...(retrieval.degraded
+        ? { degraded: Array.from(new Set(retrieval.degraded)) }
+        : {}),
+      ...(plan.relevanceThreshold > 0
+        ? {
+            relevanceFilter: {
+              threshold: plan.relevanceThreshold,
+              removed: retrieval.removed || 0,
+              foundIsUpperBound: !!foundIsUpperBound,
+            },
+          }
+        : {}),
+    };
+    await this.postProcess(response, query, cacheKey, options.debug);
+
+    return {
+      response,
+      options,
+      analysis: {
+        confidence: analysis.confidence,
+        extractedFilters: query.extractedFilters,
+      },
+    };
+  }
+
+  // Stage 1: rule-based analysis and query filters, combined with the LLM's
+  // reading when there is one; then the collections to search and spelling
+  private async analyze(
+    options: SearchOptions,
+    experiment?: ExperimentAssignment | null
+  ): Promise<QueryUnderstanding> {
+    const localAnalysis = this.analyzer.analyze(options.query);
+    const parsedQuery = parseQueryFilters(options.query);
+    let llmAnalysis: IntentAnalysis | null = null;
+
+    // The LLM can't improve on a recognised product code; skip the call
+    if (this.intent && !this.analyzer.isDeterministicIdentifier(options.query)) {
+      llmAnalysis = await this.fetchIntentAnalysis(this.intent, options);
+    }
+
+    const ensemble = combineIntentAnalyses(
+      options.query,
+      localAnalysis,
+      parsedQuery,
+      llmAnalysis,
+      this.analyzer
+    );
+    const analysis = applyVariantStrategy(ensemble.analysis, experiment?.variant);
+    const cleanQuery = ensemble.cleanQuery;
+
+    // "all" fans out to every searchable collection
+    const collections = await resolveSearchCollections(
+      options.collection,
+      this.typesense
+    );
+
+    // Identifiers are looked up verbatim and never spell-checked. Whether a
+    // correction replaces the query is decided once the query has been run.
+    let didYouMean: DidYouMean | undefined;
+    let spelling: SpellingCorrection | undefined;
+    if (analysis.strategy !== SearchStrategy.EXACT_MATCH && cleanQuery) {
+      const correction = await suggestSpelling(
+        cleanQuery,
+        collections[0],
+        this.typesense
+      );
+      if (correction) {
+        spelling = correction;
+        didYouMean = {
+          original: options.query,
+          // Apply the same fixes to the full query so it can be re-run as typed
+          suggestion: applyCorrections(options.query, correction),
+          applied: false,
+          confidence: correction.confidence,
+        };
+      }
+    }
+
+    this.logger.log('Query analysis:', {
+      originalQuery: options.query,
+      cleanQuery,
+      strategy: analysis.strategy,
+      extractedFilters: ensemble.extractedFilters,
+      sources: ensemble.sources,
+    });
+
+    return {
+      analysis,
+      extractedFilters: ensemble.extractedFilters,
+      cleanQuery,
+      sources: ensemble.sources,
+      didYouMean,
+      spelling,
+      collections,
+    };
+  }
+
+  private async fetchIntentAnalysis(
+    intent: IntentAnalyzer,
+    options: SearchOptions
+  ): Promise<IntentAnalysis | null> {
+    try {
+      const result = await intent.analyze(options.query, options.collection);
+      // A degraded placeholder would only mask the local analysis
+      return result.degraded ? null : result;
+    } catch (intentError) {
+      this.logger.error('Using local analyzer only:', intentError);
+      return null;
+    }
+  }
+
+  // Stage 2: the ranking profile's defaults, then the filter_by combining
+  // extracted, client, stock and facet filters
+  private buildFilters(
+    options: SearchOptions,
+    query: QueryUnderstanding,
+    clientFilters: FilterNode | null
+  ): SearchPlan {
+    // Federated searches rank each collection with its own profile
+    const ranking = resolveRankingProfile(
+      options.rankingProfile,
+      query.collections[0]
+    );
+    const stockPriority =
+      options.stockPriority ?? ranking.parameters.stockPriority;
+    const relevanceThreshold = clampThreshold(
+      options.relevanceThreshold ?? ranking.parameters.relevanceThreshold
+    );
+    const facetFilter = buildFacetFilter(options.facetFilters);
+
+    return {
+      ranking,
+      relevanceThreshold,
+      facetFilter,
+      searchOptions: {
+        ...options,
+        query: query.cleanQuery,
+        filterBy: buildFilterString(
+          query.extractedFilters,
+          clientFilters,
+          stockPriority,
+          facetFilter
+        ),
+        stockPriority,
+        relevanceThreshold,
+        extractedFilters: query.extractedFilters, // Pass along for response
+        collection: query.collections[0],
+      },
+    };
+  }
+
+  // Stage 3: runs a retrieval against each collection. Federated searches
+  // fetch the top page * limit from every collection so the merged list can
+  // be sliced without moving items between pages.
+  private retrieve(
+    options: SearchOptions,
+    collections: string[],
+    retrieveOne: (options: SearchOptions) => Promise<RetrievalResult>
+  ): Promise<CollectionRetrieval[]> {
+    if (collections.length === 1) {
+      return retrieveOne(options).then((retrieval) => [
+        { collection: collections[0], ...retrieval },
+      ]);
+    }
+
+    const page = options.page || 1;
+    const limit = options.limit || DEFAULT_LIMIT;
+    return Promise.all(
+      collections.map(async (collection) => {
+        try {
+          const retrieval = await retrieveOne({
+            ...options,
+            collection,
+            page: 1,
+            limit: Math.min(page * limit, MAX_PER_PAGE),
+          });
+          return { collection, ...retrieval };
+        } catch (error) {
+          // One unavailable catalog shouldn't fail the whole search
+          this.logger.error(`Federated search failed for ${collection}:`, error);
+          return {
+            collection,
+            ...withDegradation(
+              EMPTY_RETRIEVAL,
+              `Search failed for ${collection}: ${errorMessage(error)}`
+            ),
+          };
+        }
+      })
+    );
+  }
+
+  // Stage 4: a single collection's page passes through; federated lists are
+  // interleaved by normalized score and the requested page sliced out
+  private merge(
+    perCollection: CollectionRetrieval[],
+    options: SearchOptions
+  ): RetrievalResult {
+    if (perCollection.length === 1) {
+      const { collection, ...retrieval } = perCollection[0];
+      return retrieval;
+    }
+
+    const page = options.page || 1;
+    const limit = options.limit || DEFAULT_LIMIT;
+    const merged = federateResults(perCollection);
+    // An identifier lookup reports its best tier across the collections
+    const identifierLookup = perCollection
+      .map((c) => c.identifierLookup)
+      .filter((lookup): lookup is IdentifierLookupInfo => !!lookup)
+      .sort((a, b) => MATCH_TIERS.indexOf(a.match) - MATCH_TIERS.indexOf(b.match))[0];
+    const degraded = perCollection.flatMap((c) => c.degraded || []);
+    return {
+      results: merged.results.slice((page - 1) * limit, page * limit),
+      found: merged.found,
+      reachable: Math.min(merged.found, MAX_PER_PAGE),
+      removed: perCollection.reduce((sum, c) => sum + (c.removed || 0), 0),
+      foundIsUpperBound: perCollection.some((c) => c.foundIsUpperBound),
+      ...(identifierLookup ? { identifierLookup } : {}),
+      ...(degraded.length > 0 ? { degraded } : {}),
+    };
+  }
+
+  private async retrieveAndMerge(
+    options: SearchOptions,
+    collections: string[],
+    retrieveOne: (options: SearchOptions) => Promise<RetrievalResult>
+  ): Promise<RetrievalResult> {
+    return this.merge(
+      await this.retrieve(options, collections, retrieveOne),
+      options
+    );
+  }
+
+  // Stage 5: profile signals, merchandising hides and boosts, then
+  // out-of-stock items moved last without reordering the rest. Pins override
+  // every other ordering. Identifier lookups and profiles that don't sort by
+  // relevance keep Typesense's order.
+  private async rerank(
+    products: Product[],
+    { options, query, matchedRules, recovery, filterBy, page, limit }: RerankContext
+  ): Promise<Product[]> {
+    const { collections } = query;
+    const ranked =
+      query.analysis.strategy === SearchStrategy.EXACT_MATCH
+        ? products
+        : applyRankingSignals(products, options.query, (product) =>
+            resolveRankingProfile(
+              options.rankingProfile,
+              product.source_collection || collections[0]
+            )
+          );
+    const merchandised = applyRuleActions(ranked, matchedRules, collections[0]);
+    // Boosts and buries only change the score; they move products once sorted
+    const ordered = matchedRules.some((rule) => rule.boosts.length > 0)
+      ? sortByScore(merchandised)
+      : merchandised;
+    let results = sortByStockStatus(ordered);
+    if (options.debug) {
+      results = explainStockOrder(ordered, results);
+    }
+    if (recovery?.relaxedFilters?.includes('price')) {
+      results = sortByPriceProximity(results, query.extractedFilters);
+    }
+    return placePins(results, matchedRules, {
+      page,
+      limit,
+      filterBy,
+      federated: collections.length > 1,
+      client: this.typesense,
+    });
+  }
+
+  // Stage 6: the LLM's reading for the UI, then the response cache
+  private async postProcess(
+    response: SearchResponse,
+    query: QueryUnderstanding,
+    cacheKey: unknown,
+    debug?: boolean
+  ): Promise<void> {
+    const { analysis } = query;
+    if (analysis.context) {
+      response.aiAnalysis = {
+        strategy: analysis.strategy as string,
+        confidence: analysis.confidence,
+        context: analysis.context,
+        suggestedTerms: analysis.suggestedChips,
+        extractedFilters: query.extractedFilters,
+        sources: query.sources,
+      };
+    }
+
+    // A search that got past a failure is retried rather than served again
+    if (!debug && !response.degraded && this.responseCache) {
+      await this.responseCache.set(cacheKey, response);
+    }
+  }
+
+  // Execute search based on determined strategy
+  private runStrategy(
+    options: SearchOptions,
+    analysis: AnalysisResult
+  ): Promise<RetrievalResult> {
+    switch (analysis.strategy) {
+      case SearchStrategy.EXACT_MATCH:
+        return this.performExactMatchSearch(options, analysis);
+      case SearchStrategy.SEMANTIC:
+        return this.performSemanticSearch(options);
+      case SearchStrategy.KEYWORD:
+      default:
+        return this.performKeywordSearch(options);
+    }
+  }
+
+  // Tries each recovery step in turn and returns the first that finds
+  // anything: relax extracted filters one at a time, let Typesense drop query
+  // tokens, correct spelling against the catalog, then plain vector search.
+  // Later steps keep the filters relaxed by earlier ones.
+  private async recoverZeroResults(
+    options: SearchOptions,
+    analysis: AnalysisResult,
+    collections: string[],
+    clientFilters: FilterNode | null,
+    facetFilter: FilterNode | null
+  ): Promise<{
+    retrieval: RetrievalResult;
+    options: SearchOptions;
+    recovery: RecoveryInfo;
+  } | null> {
+    const retrieveWithStrategy = (opts: SearchOptions) =>
+      this.runStrategy(opts, analysis);
+    let relaxedOptions = options;
+
+    for (const relaxation of filterRelaxations(
+      options.extractedFilters || {},
+      !!options.stockPriority
+    )) {
+      relaxedOptions = {
+        ...options,
+        extractedFilters: relaxation.extractedFilters,
+        stockPriority: relaxation.stockPriority,
+        filterBy: buildFilterString(
+          relaxation.extractedFilters,
+          clientFilters,
+          relaxation.stockPriority,
+          facetFilter
+        ),
+      };
+      const retrieval = await this.retrieveAndMerge(
+        relaxedOptions,
+        collections,
+        retrieveWithStrategy
+      );
+      if (retrieval.found > 0) {
+        return { retrieval, options: relaxedOptions, recovery: relaxation.info };
+      }
+    }
+
+    const query = options.query.trim();
+    if (!query) return null;
+
+    if (query.split(/\s+/).length > 1) {
+      const dropOptions: SearchOptions = {
+        ...relaxedOptions,
+        dropTokensThreshold: options.limit || DEFAULT_LIMIT,
+      };
+      const retrieval = await this.retrieveAndMerge(
+        dropOptions,
+        collections,
+        retrieveWithStrategy
+      );
+      if (retrieval.found > 0) {
+        return {
+          retrieval,
+          options: dropOptions,
+          recovery: {
+            step: 'drop_tokens',
+            message: `No results matching every word of "${query}"; showing partial matches`,
+          },
+        };
+      }
+    }
+
+    const correction = await suggestSpelling(
+      query,
+      collections[0],
+      this.typesense
+    );
+    if (correction) {
+      const spellOptions: SearchOptions = {
+        ...relaxedOptions,
+        query: correction.corrected,
+      };
+      const retrieval = await this.retrieveAndMerge(
+        spellOptions,
+        collections,
+        retrieveWithStrategy
+      );
+      if (retrieval.found > 0) {
+        return {
+          retrieval,
+          options: spellOptions,
+          recovery: {
+            step: 'spelling',
+            message: `No results for "${query}"; showing results for "${correction.corrected}"`,
+            correctedQuery: correction.corrected,
+          },
+        };
+      }
+    }
+
+    const queryEmbedding = relaxedOptions.queryEmbedding?.length
+      ? relaxedOptions.queryEmbedding
+      : await this.generateQueryEmbedding(query, collections);
+    if (queryEmbedding) {
+      const vectorOptions: SearchOptions = { ...relaxedOptions, queryEmbedding };
+      const retrieval = await this.retrieveAndMerge(
+        vectorOptions,
+        collections,
+        (opts) => this.performVectorSearch(opts)
+      );
+      if (retrieval.found > 0) {
+        return {
+          retrieval,
+          options: vectorOptions,
+          recovery: {
+            step: 'vector',
+            message: `No close matches for "${query}"; showing similar products`,
+          },
+        };
+      }
+    }
+
+    return null;
+  }
+
+  // Identifier lookup in tiers: the code itself in the fields its type lives
+  // in, then (for seller codes) codes starting with it, then a lenient text
+  // search. identifierLookup reports the tier, so a partial match is never
+  // passed off as the product.
+  private async performExactMatchSearch(
+    options: SearchOptions,
+    analysis: AnalysisResult
+  ): Promise<RetrievalResult> {
+    const identifier = parseIdentifier(
+      options.query,
+      isIdentifierType(analysis.identifierType)
+        ? analysis.identifierType
+        : undefined
+    );
+
+    let failure: string | undefined;
+    try {
+      const exact = await this.performIdentifierSearch(options, identifier);
+      if (exact.found > 0) {
+        return {
+          ...exact,
+          identifierLookup: identifierLookup(options.query, identifier, 'exact'),
+        };
+      }
+
+      if (supportsPrefixMatch(identifier)) {
+        const prefix = await this.performIdentifierPrefixSearch(
+          options,
+          identifier
+        );
+        if (prefix.found > 0) {
+          return {
+            ...prefix,
+            identifierLookup: identifierLookup(options.query, identifier, 'prefix'),
+          };
+        }
+      }
+    } catch (error) {
+      this.logger.error('Exact match search error:', error);
+      failure = `Identifier lookup failed: ${errorMessage(error)}`;
+    }
+
+    const fallback = await this.performFallbackSearch(options);
+    return {
+      ...(failure ? withDegradation(fallback, failure) : fallback),
+      identifierLookup: identifierLookup(
+        options.query,
+        identifier,
+        fallback.found > 0 ? 'fallback' : 'none'
+      ),
+    };
+  }
+
+  private async performIdentifierSearch(
+    options: SearchOptions,
+    identifier: ParsedIdentifier
+  ): Promise<RetrievalResult> {
+    // Determine which collection to search
+    const collectionName = options.collection || COLLECTION_NAME;
+
+    // Every stored form of the code, in the fields its type lives in
+    const identifierFilter = renderFilter(
+      or(
+        ...identifier.fields.map(
+          (field): FilterNode => ({ op: 'eq', field, value: identifier.values })
+        )
+      )
+    );
+
+    const searchParams: any = {
+      collection: collectionName,
+      q: '*',
+      query_by: identifier.fields.join(','),
+      filter_by: options.filterBy
+        ? `(${identifierFilter}) && ${options.filterBy}`
+        : identifierFilter,
+      per_page: options.limit,
+      page: options.page || 1,
+      exclude_fields: 'embedding,embedding_text',
+    };
+
+    this.logger.log(
+      `Performing exact ${identifier.type} lookup in collection: ${collectionName}`,
+      identifier.values
+    );
+    const results = await this.typesense.multiSearch.perform({
+      searches: [searchParams],
+    });
+    const result = results.results?.[0] as any;
+    if (result?.error) throw new Error(result.error);
+
+    return {
+      results: (result?.hits || []).map((hit: any) => ({
+        ...(hit.document as Product),
+        score: 100, // High score for exact matches
+        identifierMatch: 'exact',
+        ...(options.debug ? { debug: explainHit(hit, 'exact', 100) } : {}),
+      })),
+      found: result?.found || 0,
+    };
+  }
+
+  // Seller codes that start with the query. Typesense drops hyphens when it
+  // indexes a code, so the query is sent without separators and without typos.
+  private async performIdentifierPrefixSearch(
+    options: SearchOptions,
+    identifier: ParsedIdentifier
+  ): Promise<RetrievalResult> {
+    const collectionName = options.collection || COLLECTION_NAME;
+
+    const searchParams: any = {
+      collection: collectionName,
+      q: identifier.normalized,
+      query_by: identifier.fields.join(','),
+      prefix: true,
+      infix: 'off',
+      num_typos: 0,
+      drop_tokens_threshold: 0,
+      per_page: options.limit,
+      page: options.page || 1,
+      exclude_fields: 'embedding,embedding_text',
+    };
+    if (options.filterBy) {
+      searchParams.filter_by = options.filterBy;
+    }
+
+    this.logger.log(`Performing SKU prefix search in collection: ${collectionName}`);
+    const results = await this.typesense.multiSearch.perform({
+      searches: [searchParams],
+    });
+    const result = results.results?.[0] as any;
+    if (result?.error) throw new Error(result.error);
+
+    return {
+      results: (result?.hits || []).map((hit: any) => ({
+        ...(hit.document as Product),
+        score: hit.text_match || 0,
+        identifierMatch: 'prefix',
+        ...(options.debug
+          ? { debug: explainHit(hit, 'prefix', hit.text_match || 0) }
+          : {}),
+      })),
+      found: result?.found || 0,
+    };
+  }
+
+  private async performKeywordSearch(
+    options: SearchOptions
+  ): Promise<RetrievalResult> {
+    try {
+      const collectionName = options.collection || COLLECTION_NAME;
+      const ranking = rankingFor(options);
+
+      const searchParams: any = {
+        collection: collectionName,
+        q: options.query || '*',
+        ...queryByParams(ranking),
+        sort_by: ranking.sortBy,
+        per_page: options.limit,
+        page: options.page || 1,
+        exclude_fields: 'embedding,embedding_text',
+        prefix: true,
+        infix: 'fallback',
+        drop_tokens_threshold: options.dropTokensThreshold ?? 0,
+      };
+
+      // IMPORTANT: Apply the filters
+      if (options.filterBy) {
+        searchParams.filter_by = options.filterBy;
+        this.logger.log('Applying filters to keyword search:', options.filterBy);
+      }
+
+      this.logger.log(
+        `Performing keyword search in collection: ${collectionName} with params:`,
+        searchParams
+      );
+      const { result, hits, removed, foundIsUpperBound } =
+        await this.searchWithThreshold(
+        searchParams,
+        options.relevanceThreshold
+      );
+
+      if (result && result.hits) {
+        this.logger.log(`Found ${hits.length} results`);
+        return {
+          results: processSearchResults(hits, salesBoostFor(options), options.debug),
+          found: result.found || 0,
+          removed,
+          foundIsUpperBound,
+        };
+      }
+
+      this.logger.log('No results found');
+      return EMPTY_RETRIEVAL;
+    } catch (error) {
+      this.logger.error('Keyword search error:', error);
+      throw error;
+    }
+  }
+
+  private async performSemanticSearch(
+    searchOptions: SearchOptions
+  ): Promise<RetrievalResult> {
+    const options = await this.withUsableEmbedding(searchOptions);
+    // First check if we have embeddings
+    if (!options.queryEmbedding || options.queryEmbedding.length === 0) {
+      this.logger.log('No embedding provided, falling back to keyword search');
+      return withDegradation(
+        await this.performKeywordSearch(options),
+        `No query embedding for ${options.collection || COLLECTION_NAME}; searched by keyword only`
+      );
+    }
+
+    const alpha = resolveHybridAlpha(options.alpha);
+
+    let hybridFailure: string;
+    try {
+      // Preferred path: Typesense fuses keyword and vector ranks server-side
+      return await this.performHybridSearch(options, alpha);
+    } catch (error: any) {
+      this.logger.error(
+        'Hybrid search failed, fusing separate queries instead:',
+        error.message
+      );
+      hybridFailure = `Hybrid search failed: ${error.message}`;
+    }
+
+    try {
+      // Client-side fusion re-sorts the merged lists, so paging each source
+      // independently would shuffle items between pages. Instead fetch the
+      // top page * limit from both sources and slice the requested window.
+      const page = options.page || 1;
+      const limit = options.limit || 24;
+      const windowOptions: SearchOptions = {
+        ...options,
+        page: 1,
+        limit: Math.min(page * limit, MAX_PER_PAGE),
+      };
+
+      const [vectorResults, keywordResults] = await Promise.all([
+        this.performVectorSearch(windowOptions),
+        this.performEnhancedKeywordSearch(windowOptions),
+      ]);
+
+      // Merge results with weighted reciprocal-rank fusion
+      const merged = mergeSemanticResults(
+        vectorResults.results,
+        keywordResults.results,
+        alpha,
+        salesBoostFor(options)
+      );
+
+      const found = Math.max(merged.length, keywordResults.found);
+      return withDegradation(
+        {
+          results: merged.slice((page - 1) * limit, page * limit),
+          found,
+          reachable: Math.min(found, MAX_PER_PAGE),
+          removed: keywordResults.removed,
+          foundIsUpperBound: keywordResults.foundIsUpperBound,
+        },
+        hybridFailure,
+        ...(vectorResults.degraded || []),
+        ...(keywordResults.degraded || [])
+      );
+    } catch (error) {
+      this.logger.error('Semantic search error:', error);
+      return withDegradation(
+        await this.performKeywordSearch(options),
+        hybridFailure,
+        `Semantic search failed: ${errorMessage(error)}`
+      );
+    }
+  }
+
+  private async performHybridSearch(
+    options: SearchOptions,
+    alpha: number
+  ): Promise<RetrievalResult> {
+    const collectionName = options.collection || COLLECTION_NAME;
+
+    const embedString = options
+      .queryEmbedding!.map((v) => v.toFixed(6))
+      .join(',');
+
+    // Sending both q and vector_query makes Typesense rank by rank fusion:
+    // alpha weights the vector rank, (1 - alpha) the keyword rank
+    const searchParams: any = {
+      collection: collectionName,
+      q: options.query || '*',
+      ...queryByParams(rankingFor(options)),
+      // k bounds the vector candidates across all pages, not just this one
+      vector_query: withDistanceThreshold(
+        `embedding:([${embedString}], k:${vectorK(options)}, alpha:${alpha})`,
+        options.relevanceThreshold || 0
+      ),
+      per_page: options.limit || 24,
+      page: options.page || 1,
+      exclude_fields: 'embedding,embedding_text',
+      prefix: true,
+      drop_tokens_threshold: options.dropTokensThreshold ?? 0,
+    };
+
+    if (options.filterBy) {
+      searchParams.filter_by = options.filterBy;
+    }
+
+    this.logger.log(
+      `Performing hybrid search in collection: ${collectionName} with alpha: ${alpha}`
+    );
+    const { result, hits, removed, foundIsUpperBound } =
+      await this.searchWithThreshold(
+      searchParams,
+      options.relevanceThreshold
+    );
+
+    // multi_search reports per-search failures in the body rather than throwing
+    if (!result || result.error) {
+      throw new Error(result?.error || 'Empty hybrid search response');
+    }
+
+    return {
+      results: processSearchResults(hits, salesBoostFor(options), options.debug),
+      found: result.found || 0,
+      removed,
+      foundIsUpperBound,
+    };
+  }
+
+  private async performEnhancedKeywordSearch(
+    options: SearchOptions
+  ): Promise<RetrievalResult> {
+    try {
+      const collectionName = options.collection || COLLECTION_NAME;
+
+      const searchParams: any = {
+        collection: collectionName,
+        q: options.query,
+        ...queryByParams(rankingFor(options)),
+        sort_by: `_text_match:desc,sales_count:desc`,
+        per_page: options.limit || 24,
+        page: options.page || 1,
+        exclude_fields: 'embedding,embedding_text',
+        prefix: true,
+        infix: 'fallback',
+        drop_tokens_threshold: options.dropTokensThreshold ?? 0,
+      };
+
+      // Add any filters
+      if (options.filterBy) {
+        searchParams.filter_by = options.filterBy;
+      }
+
+      const { result, hits, removed, foundIsUpperBound } =
+        await this.searchWithThreshold(
+        searchParams,
+        options.relevanceThreshold
+      );
+
+      if (result && result.hits) {
+        return {
+          results: processSearchResults(hits, salesBoostFor(options), options.debug),
+          found: result.found || 0,
+          removed,
+          foundIsUpperBound,
+        };
+      }
+
+      return EMPTY_RETRIEVAL;
+    } catch (error) {
+      this.logger.error('Enhanced keyword search error:', error);
+      return withDegradation(
+        EMPTY_RETRIEVAL,
+        `Keyword search failed: ${errorMessage(error)}`
+      );
+    }
+  }
+
+  private async performVectorSearch(
+    searchOptions: SearchOptions
+  ): Promise<RetrievalResult> {
+    const options = await this.withUsableEmbedding(searchOptions);
+    if (!options.queryEmbedding) {
+      return withDegradation(
+        EMPTY_RETRIEVAL,
+        `No query embedding for ${options.collection || COLLECTION_NAME}; skipped vector search`
+      );
+    }
+
+    try {
+      const collectionName = options.collection || COLLECTION_NAME;
+
+      this.logger.log(
+        `Performing vector search in collection: ${collectionName} with embedding length: ${options.queryEmbedding.length}`
+      );
+
+      // Option 1: Use string concatenation more efficiently
+      // Instead of joining all at once, build the string in chunks
+      const embedString = options.queryEmbedding
+        .map((v) => v.toFixed(6)) // Use fixed precision to reduce size
+        .join(',');
+
+      // Build the search parameters for multi_search
+      const searchParams: any = {
+        collection: collectionName,
+        q: '*',
+        query_by: 'name',
+        // Don't build the vector_query as a string yet
+        exclude_fields: 'embedding,embedding_text',
+        per_page: options.limit || 24,
+        page: options.page || 1,
+      };
+
+      // Add the vector query directly to avoid string building issues.
+      // Typesense applies the relevance threshold as a distance cut-off.
+      searchParams.vector_query = withDistanceThreshold(
+        `embedding:([${embedString}], k:${vectorK(options)})`,
+        options.relevanceThreshold || 0
+      );
+
+      if (options.filterBy) {
+        searchParams.filter_by = options.filterBy;
+      }
+
+      const searchRequests = {
+        searches: [searchParams],
+      };
+
+      const results = await this.typesense.multiSearch.perform(searchRequests);
+      const error = (results.results?.[0] as any)?.error;
+      if (error) throw new Error(error);
+
+      if (
+        results.results &&
+        results.results[0] &&
+        (results.results[0] as any).hits
+      ) {
+        return {
+          results: processSearchResults(
+            (results.results[0] as any).hits,
+            salesBoostFor(options),
+            options.debug
+          ),
+          found: (results.results[0] as any).found || 0,
+        };
+      }
+
+      return EMPTY_RETRIEVAL;
+    } catch (error: any) {
+      this.logger.error('Vector search failed:', error.message);
+      return withDegradation(EMPTY_RETRIEVAL, `Vector search failed: ${error.message}`);
+    }
+  }
+
+  private async performFallbackSearch(
+    options: SearchOptions
+  ): Promise<RetrievalResult> {
+    try {
+      // Determine which collection to search
+      const collectionName = options.collection || COLLECTION_NAME;
+
+      // Fallback to a more lenient search
+      const searchParams: any = {
+        collection: collectionName,
+        q: options.query,
+        query_by: 'name,sku,mpn,manufacturer,brand',
+        prefix: true,
+        infix: 'always',
+        per_page: options.limit,
+        page: options.page || 1,
+        exclude_fields: 'embedding,embedding_text',
+      };
+
+      // Add any additional filters
+      if (options.filterBy) {
+        searchParams.filter_by = options.filterBy;
+      }
+
+      // Use multi_search for consistency
+      const searchRequests = {
+        searches: [searchParams],
+      };
+
+      this.logger.log(`Performing fallback search in collection: ${collectionName}`);
+      const results = await this.typesense.multiSearch.perform(searchRequests);
+      const error = (results.results?.[0] as any)?.error;
+      if (error) throw new Error(error);
+
+      if (
+        results.results &&
+        results.results[0] &&
+        (results.results[0] as any).hits
+      ) {
+        return {
+          results: (results.results[0] as any).hits.map((hit: any) => ({
+            ...(hit.document as Product),
+            score: hit.text_match || 0,
+            ...(options.debug
+              ? { debug: explainHit(hit, 'fallback', hit.text_match || 0) }
+              : {}),
+          })),
+          found: (results.results[0] as any).found || 0,
+        };
+      }
+
+      return EMPTY_RETRIEVAL;
+    } catch (error) {
+      this.logger.error('Fallback search error:', error);
+      return withDegradation(
+        EMPTY_RETRIEVAL,
+        `Fallback search failed: ${errorMessage(error)}`
+      );
+    }
+  }
+
+  // Only embeds when at least one of the collections can take the vector
+  private async generateQueryEmbedding(
+    query: string,
+    collections: string[]
+  ): Promise<number[] | undefined> {
+    try {
+      const usable = await Promise.all(
+        collections.map((collection) => this.embeddingsMatchSchema(collection))
+      );
+      if (!usable.includes(true)) return undefined;
+      return await embedQuery(query, this.embeddingProvider());
+    } catch (error: any) {
+      this.logger.error('Failed to generate query embedding:', error.message);
+      return undefined;
+    }
+  }
+
+  private embeddingProvider(): EmbeddingProvider {
+    return this.embeddings ?? getEmbeddingProvider();
+  }
+
+  // Drops the query vector for a collection whose embedding field doesn't
+  // match the provider, so Typesense isn't sent a vector it would reject
+  private async withUsableEmbedding(
+    options: SearchOptions
+  ): Promise<SearchOptions> {
+    if (!options.queryEmbedding?.length) return options;
+    const collection = options.collection || COLLECTION_NAME;
+    if (await this.embeddingsMatchSchema(collection)) return options;
+    return { ...options, queryEmbedding: undefined };
+  }
+
+  // Checked once per collection; an unreadable schema is retried next time
+  // and doesn't block the query
+  private embeddingsMatchSchema(collection: string): Promise<boolean> {
+    let check = this.embeddingChecks.get(collection);
+    if (!check) {
+      check = checkEmbeddingDimensions(
+        this.embeddingProvider(),
+        collection,
+        this.typesense
+      ).then(
+        (result) => {
+          if (!result.ok) {
+            this.logger.error('Skipping query embeddings:', result.error);
+          }
+          return result.ok;
+        },
+        (error) => {
+          this.embeddingChecks.delete(collection);
+          this.logger.error('Embedding dimension check failed:', error.message);
+          return true;
+        }
+      );
+      this.embeddingChecks.set(collection, check);
+    }
+    return check;
+  }
+
+  private fetchCollectionFacets(
+    options: SearchOptions,
+    collections: string[]
+  ): Promise<FacetResult[]> {
+    if (collections.length === 1) return this.fetchFacets(options);
+    return Promise.all(
+      collections.map((collection) => this.fetchFacets({ ...options, collection }))
+    ).then(mergeFacetResults);
+  }
+
+  // Facets use a separate per_page:0 query so that a collection without
+  // facet-enabled fields degrades to no sidebar instead of a failed search
+  private async fetchFacets(options: SearchOptions): Promise<FacetResult[]> {
+    try {
+      const collectionName = options.collection || COLLECTION_NAME;
+
+      const searchParams: any = {
+        collection: collectionName,
+        q: options.query || '*',
+        // Match the same fields as retrieval so counts agree with the results
+        ...queryByParams(rankingFor(options)),
+        per_page: 0,
+        prefix: true,
+        drop_tokens_threshold: options.dropTokensThreshold ?? 0,
+        ...buildFacetParams(),
+      };
+
+      if (options.filterBy) {
+        searchParams.filter_by = options.filterBy;
+      }
+
+      const results = await this.typesense.multiSearch.perform({
+        searches: [searchParams],
+      });
+
+      const result = results.results && (results.results[0] as any);
+      if (!result || result.error) {
+        this.logger.warn('Facet query failed:', result?.error);
+        return [];
+      }
+
+      return parseFacetCounts(result.facet_counts);
+    } catch (error) {
+      this.logger.error('Facet query error:', error);
+      return [];
+    }
+  }
+
+  // A broken rules store shouldn't take search down with it
+  private async loadMerchandisingRules(): Promise<MerchandisingRule[]> {
+    try {
+      return await listRules(undefined, this.merchandising);
+    } catch (error) {
+      this.logger.error('Could not load merchandising rules:', error);
+      return [];
+    }
+  }
+
+  // Runs one search, with a one-hit text_match probe alongside when a
+  // relevance threshold applies, and drops the hits that fall below it.
+  // Typesense can't filter on text_match, so the cut only reaches the page
+  // retrieved and result.found becomes an upper bound.
+  private async searchWithThreshold(
+    searchParams: any,
+    threshold = 0
+  ): Promise<{
+    result: any;
+    hits: any[];
+    removed: number;
+    foundIsUpperBound: boolean;
+  }> {
+    const results = await this.typesense.multiSearch.perform({
+      searches:
+        threshold > 0 ? [searchParams, textMatchProbe(searchParams)] : [searchParams],
+    });
+
+    const result = results.results && (results.results[0] as any);
+    if (result?.error) throw new Error(result.error);
+    if (!result || !result.hits) {
+      return { result, hits: [], removed: 0, foundIsUpperBound: false };
+    }
+    return {
+      result,
+      foundIsUpperBound: threshold > 0,
+      ...filterByRelevance(
+        result.hits,
+        threshold,
+        bestTextMatch(results.results[1])
+      ),
+    };
+  }
+}
+
+function mergeSemanticResults(
+  vectorResults: Product[],
+  keywordResults: Product[],
+  alpha: number,
+  salesBoost: number
+): Product[] {
+  const productMap = new Map<string, Product>();
+
+  // Records one list's rank and contribution for a fused product
+  const addFusionRank = (
+    debug: ScoreBreakdown,
+    list: 'vector' | 'keyword',
+    rank: number,
+    contribution: number
+  ): ScoreBreakdown['fusion'] => {
+    const fusion = debug.fusion || {
+      alpha,
+      vectorContribution: 0,
+      keywordContribution: 0,
+      sources: 0,
+    };
+    const sources = fusion.sources + 1;
+    return list === 'vector'
+      ? { ...fusion, vectorRank: rank, vectorContribution: contribution, sources }
+      : { ...fusion, keywordRank: rank, keywordContribution: contribution, sources };
+  };
+
+  // Text match and vector distance use different units, so fuse by rank:
+  // each list contributes weight / (RRF_K + rank)
+  const addProducts = (
+    products: Product[],
+    weight: number,
+    list: 'vector' | 'keyword'
+  ) => {
+    products.forEach((product, index) => {
+      const contribution = weight / (RRF_K + index + 1);
+      const existing = productMap.get(product.sku);
+      if (existing) {
+        existing.score = (existing.score || 0) + contribution;
+        if (existing.debug && product.debug) {
+          existing.debug = {
+            ...existing.debug,
+            ...product.debug,
+            // Vector distance comes from the earlier, vector list
+            vectorDistance: existing.debug.vectorDistance,
+            fusion: addFusionRank(existing.debug, list, index + 1, contribution),
+          };
+        }
+      } else {
+        productMap.set(product.sku, {
+          ...product,
+          score: contribution,
+          ...(product.debug
+            ? {
+                debug: {
+                  ...product.debug,
+                  fusion: addFusionRank(product.debug, list, index + 1, contribution),
+                },
+              }
+            : {}),
+        });
+      }
+    });
+  };
+
+  addProducts(vectorResults, alpha, 'vector');
+  addProducts(keywordResults, 1 - alpha, 'keyword');
+
+  // Apply sales boost once, to the fused score
+  const finalResults = Array.from(productMap.values()).map((product) => {
+    const multiplier = salesMultiplier(product, salesBoost);
+    return {
+      ...product,
+      score: (product.score || 0) * multiplier,
+      ...(product.debug
+        ? {
+            debug: {
+              ...product.debug,
+              source:
+                product.debug.fusion!.sources > 1
+                  ? ('hybrid' as const)
+                  : product.debug.source,
+              baseScore: product.score || 0,
+              salesMultiplier: multiplier,
+            },
+          }
+        : {}),
+    };
+  });
+
+  // Tie-break on SKU so equal scores keep the same order across pages
+  return finalResults.sort(
+    (a, b) => (b.score || 0) - (a.score || 0) || a.sku.localeCompare(b.sku)
+  );
+}
+
+function processSearchResults(
+  hits: any[],
+  salesBoost: number,
+  debug = false
+): Product[] {
+  return hits.map((hit) => {
+    const product = hit.document as Product;
+    const baseScore = hitBaseScore(hit);
+    const multiplier = salesMultiplier(product, salesBoost);
+
+    return {
+      ...product,
+      score: baseScore * multiplier,
+      ...(debug
+        ? {
+            debug: {
+              ...explainHit(hit, hitSource(hit), baseScore),
+              salesMultiplier: multiplier,
+            },
+          }
+        : {}),
+    };
+  });
+}
+
+// The raw Typesense signals behind a hit's score
+function explainHit(
+  hit: any,
+  source: ScoreBreakdown['source'],
+  baseScore: number
+): ScoreBreakdown {
+  return {
+    source,
+    ...(hit.text_match ? { textMatch: hit.text_match } : {}),
+    ...(hit.text_match_info ? { textMatchInfo: hit.text_match_info } : {}),
+    ...(hit.vector_distance !== undefined
+      ? { vectorDistance: hit.vector_distance }
+      : {}),
+    ...(hit.hybrid_search_info?.rank_fusion_score !== undefined
+      ? { rankFusionScore: hit.hybrid_search_info.rank_fusion_score }
+      : {}),
+    baseScore,
+    matchedFields: (hit.highlights || []).map((highlight: any) => ({
+      field: highlight.field,
+      // Array fields report one token list per matched element
+      tokens: [...new Set<string>((highlight.matched_tokens || []).flat())],
+    })),
+  };
+}
+
+function identifierLookup(
+  query: string,
+  identifier: ParsedIdentifier,
+  match: IdentifierLookupInfo['match']
+): IdentifierLookupInfo {
+  const messages: Partial<Record<IdentifierLookupInfo['match'], string>> = {
+    prefix: `No product has the code "${query}"; showing codes that start with it`,
+    fallback: `No product has the code "${query}"; showing the closest matches`,
+  };
+  let message = messages[match];
+  if (message && identifier.checkDigitValid === false) {
+    message += ' (its check digit is wrong for a UPC, EAN or GTIN)';
+  }
+
+  return {
+    type: identifier.type,
+    normalized: identifier.normalized,
+    ...(identifier.checkDigitValid !== undefined
+      ? { checkDigitValid: identifier.checkDigitValid }
+      : {}),
+    match,
+    ...(message ? { message } : {}),
+  };
+}
+
+function hitSource(hit: any): ScoreBreakdown['source'] {
+  if (hit.hybrid_search_info) return 'hybrid';
+  if (!hit.text_match && hit.vector_distance !== undefined) return 'vector';
+  return 'keyword';
+}
+
+function hitBaseScore(hit: any): number {
+  // Hybrid hits carry a fused score in [0, 1]
+  if (hit.hybrid_search_info?.rank_fusion_score !== undefined) {
+    return hit.hybrid_search_info.rank_fusion_score;
+  }
+  if (hit.text_match) {
+    return hit.text_match;
+  }
+  // Vector distance is lower-is-better; convert to a similarity
+  if (hit.vector_distance !== undefined) {
+    return Math.max(0, 1 - hit.vector_distance);
+  }
+  return 0;
+}
+
+function salesMultiplier(product: Product, salesBoost: number): number {
+  const salesScore = Math.log10((product.sales_count || 0) + 1);
+  return 1 + salesScore * salesBoost;
+}
+
+function rankingFor(options: SearchOptions): RankingProfile {
+  return resolveRankingProfile(
+    options.rankingProfile,
+    options.collection || COLLECTION_NAME
+  );
+}
+
+// A salesBoost sent with the request overrides the profile's
+function salesBoostFor(options: SearchOptions): number {
+  return typeof options.salesBoost === 'number'
+    ? options.salesBoost
+    : rankingFor(options).parameters.salesBoost;
+}
+
+function vectorK(options: SearchOptions): number {
+  return (options.page || 1) * (options.limit || 24);
+}
+
+function resolveHybridAlpha(alpha?: number): number {
+  const value =
+    typeof alpha === 'number' && !isNaN(alpha) ? alpha : DEFAULT_HYBRID_ALPHA;
+  return Math.min(1, Math.max(0, value));
+}
+
+// Records where each product ranked before out-of-stock items were moved
+// last, next to where it ended up
+function explainStockOrder(before: Product[], after: Product[]): Product[] {
+  return after.map((product, index) =>
+    product.debug
+      ? {
+          ...product,
+          debug: {
+            ...product.debug,
+            stock: {
+              inStock: product.is_in_stock !== false,
+              rankBefore: before.indexOf(product) + 1,
+              rank: index + 1,
+            },
+          },
+        }
+      : product
+  );
+}
+
+// Out-of-stock items last; otherwise the order is kept, whether it came
+// from the client score or a profile's sort_by
+function sortByStockStatus(products: Product[]): Product[] {
+  return [
+    ...products.filter((product) => product.is_in_stock !== false),
+    ...products.filter((product) => product.is_in_stock === false),
+  ];
+}
+
+// Array.sort is stable, so equal scores keep their order
+function sortByScore(products: Product[]): Product[] {
+  return [...products].sort((a, b) => (b.score || 0) - (a.score || 0));
+}
+
+function buildFilterString(
+  extractedFilters: ExtractedFilters | undefined,
+  clientFilters: FilterNode | null,
+  stockPriority?: boolean,
+  facetFilter?: FilterNode | null
+): string {
+  return renderFilter(
+    and(
+      extractedFiltersToNode(extractedFilters),
+      // Add stock priority if enabled
+      stockPriority && !extractedFilters?.inStock
+        ? { op: 'eq', field: 'is_in_stock', value: true }
+        : null,
+      // Facet sidebar selections
+      facetFilter,
+      // Validated client filters
+      clientFilters
+    )
+  );
+}
+
+let searchService: SearchService | null = null;
+
+export function getSearchService(): SearchService {
+  if (!searchService) {
+    searchService = new SearchService();
+  }
+  return searchService;
+}
+
+// Replaces the shared instance, e.g. with one built on fake clients
+export function setSearchService(service: SearchService) {
+  searchService = service;
+}
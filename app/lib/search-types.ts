@@ -1,4 +1,7 @@
 // app/lib/search-types.ts
+import type { StructuredFilters } from './filter-builder';
+import type { IdentifierType } from './identifiers';
+
 export interface Product {
   id: number;
   sku: string;
@@ -25,6 +28,39 @@ export interface Product {
   gtin?: string;
   upc?: string;
   product_id?: string;
+  source_collection?: string; // Set on federated ("all") searches
+  also_in?: string[]; // Other collections carrying the same GTIN/SKU
+  identifierMatch?: 'exact' | 'prefix'; // Set on identifier lookups
+  debug?: ScoreBreakdown; // Only with SearchOptions.debug
+}
+
+// How a hit's score came about, stage by stage; returned with debug: true.
+// Multipliers of 1 and stages that didn't run are left out.
+export interface ScoreBreakdown {
+  source: 'keyword' | 'vector' | 'hybrid' | 'exact' | 'prefix' | 'fallback';
+  textMatch?: number; // Raw Typesense text_match
+  textMatchInfo?: Record<string, number | string>;
+  vectorDistance?: number;
+  rankFusionScore?: number; // Typesense hybrid rank fusion
+  baseScore: number; // Before any multiplier
+  salesMultiplier?: number;
+  // Client-side reciprocal-rank fusion of separate vector and keyword lists;
+  // a product in both lists gets both contributions
+  fusion?: {
+    alpha: number;
+    vectorRank?: number;
+    keywordRank?: number;
+    vectorContribution: number;
+    keywordContribution: number;
+    sources: number;
+  };
+  federation?: { collection: string; bestScore: number }; // Score divided by bestScore
+  rankingSignals?: { brand: number; price: number; recency: number };
+  merchandisingBoost?: number;
+  pinnedPosition?: number;
+  matchedFields: Array<{ field: string; tokens: string[] }>;
+  // Rank before vs after out-of-stock items were moved last (1-based)
+  stock?: { inStock: boolean; rankBefore: number; rank: number };
 }
 
 export enum SearchStrategy {
@@ -41,6 +77,7 @@ export interface SearchContext {
   confidence: number;
   originalQuery: string;
   unmatchedTokens?: string[];
+  summary?: string; // Free-text description from the LLM
 }
 
 export interface AnalysisResult {
@@ -52,6 +89,14 @@ export interface AnalysisResult {
   queryTerms: string[];
 }
 
+// Which analyzer decided a field of the final analysis
+export type IntentSource = 'llm' | 'local' | 'combined';
+
+export type IntentSources = Record<
+  'strategy' | 'confidence' | 'identifierType' | 'context' | 'suggestedChips' | 'filters' | 'cleanQuery',
+  IntentSource
+>;
+
 export interface ExtractedFilters {
   minPrice?: number;
   maxPrice?: number;
@@ -60,30 +105,73 @@ export interface ExtractedFilters {
   inStock?: boolean;
   onSale?: boolean;
   attributes?: string[]; // For things like "organic", "gluten-free"
+  packSize?: number; // Units per pack/case, e.g. "case of 12"
+}
+
+// Validated output of /api/analyze-intent
+export interface IntentAnalysis {
+  strategy: SearchStrategy;
+  confidence: number;
+  context: string;
+  suggestedTerms: string[];
+  filters: ExtractedFilters;
+  cleanQuery: string;
+  droppedFields?: string[]; // Fields removed during validation
+  degraded?: boolean; // Placeholder returned when the LLM call failed
 }
 
 export interface SearchOptions {
   query: string;
   queryEmbedding?: number[];
-  salesBoost: number;
+  salesBoost?: number; // Overrides the ranking profile's
   limit?: number;
-  filters?: string;
+  filters?: StructuredFilters; // Validated against FILTERABLE_FIELDS
+  filterBy?: string; // Rendered filter_by, built server-side
   extractedFilters?: ExtractedFilters; // Add this
   page?: number;
   collection?: string;
   exactFields?: string[];
   stockPriority?: boolean;
+  alpha?: number; // Hybrid weight: 0 = keyword only, 1 = vector only
+  facetFilters?: SelectedFacets; // Sidebar selections, field -> values
+  cursor?: string; // nextCursor from a previous response; overrides page
+  searchId?: string; // With cursor: the first page's searchId, kept for later pages
+  sessionId?: string; // Browser session, echoed into analytics events
+  userId?: string; // Signed-in shopper; experiments with unit "user" assign by it
+  dropTokensThreshold?: number; // Set by zero-result recovery only
+  spellCorrect?: boolean; // false searches the query exactly as typed
+  rankingProfile?: string; // Named profile; the collection's default when omitted
+  relevanceThreshold?: number; // 0-1 minimum relevance; overrides the profile's
+  debug?: boolean; // Attach a ScoreBreakdown to every hit; bypasses the cache
 }
 
 export interface SearchResponse {
   success: boolean;
+  searchId?: string; // Pass to /api/events with impressions, clicks and conversions
+  sessionId?: string;
   results: Product[];
   count: number;
+  found?: number; // Total matches across all pages; see RelevanceFilterInfo
+  page?: number;
+  totalPages?: number; // Pages reachable from found; absent when found is an upper bound
+  nextCursor?: string | null; // Opaque; pass back as SearchOptions.cursor
   searchTime?: number;
+  cached?: boolean; // Served from the search response cache
   strategy?: SearchStrategy;
+  cleanQuery?: string; // Query text sent to Typesense after filter phrases were removed
   suggestedChips?: string[];
   error?: string;
   appliedFilters?: ExtractedFilters; // Add this
+  facets?: FacetResult[];
+  collections?: string[]; // Collections searched when federating "all"
+  recovery?: RecoveryInfo; // Set when the original search found nothing
+  identifierLookup?: IdentifierLookupInfo; // Set on identifier lookups
+  didYouMean?: DidYouMean;
+  merchandising?: string[]; // Ids of the merchandising rules that fired
+  rankingProfile?: string; // Profile that ranked the results
+  relevanceFilter?: RelevanceFilterInfo; // Set when a relevance threshold applied
+  degraded?: string[]; // Failures the search fell back from or skipped; such responses aren't cached
+  experiment?: { id: string; variant: string }; // Set when the search was enrolled in an experiment
   // Add AI analysis info
   aiAnalysis?: {
     strategy: string;
@@ -91,9 +179,82 @@ export interface SearchResponse {
     context: any;
     suggestedTerms: string[];
     extractedFilters?: ExtractedFilters;
+    sources?: IntentSources;
   };
 }
 
+// Spelling suggestion from the catalog vocabulary. When applied, results are
+// for the suggestion and the original can be re-run with spellCorrect: false.
+export interface DidYouMean {
+  original: string;
+  suggestion: string;
+  applied: boolean;
+  confidence: number;
+}
+
+// What the relevance threshold did to a response (app/lib/relevance.ts)
+export interface RelevanceFilterInfo {
+  threshold: number;
+  // Hits on this page dropped after retrieval. Vector candidates beyond
+  // the threshold are excluded by Typesense and aren't counted.
+  removed: number;
+  // Keyword and hybrid hits are cut after retrieval, one page at a time, so
+  // found still counts the weak matches on other pages and totalPages is
+  // left out. Vector-only searches are cut by Typesense and stay exact.
+  foundIsUpperBound: boolean;
+}
+
+// How an identifier query was read and what it matched (app/lib/identifiers.ts).
+// "prefix" results are codes starting with the query, not the product itself;
+// "fallback" is a lenient text search.
+export interface IdentifierLookupInfo {
+  type: IdentifierType;
+  normalized: string;
+  checkDigitValid?: boolean; // Set for all-digit codes of a barcode length
+  match: 'exact' | 'prefix' | 'fallback' | 'none';
+  message?: string; // Shown to the user when nothing matched exactly
+}
+
+// How /api/search recovered from a search with no matches
+export type RecoveryStep = 'relax_filters' | 'drop_tokens' | 'spelling' | 'vector';
+
+export interface RecoveryInfo {
+  step: RecoveryStep;
+  message: string; // Shown to the user, e.g. "No matches under $5; showing closest prices"
+  relaxedFilters?: string[]; // Extracted filters that were dropped
+  correctedQuery?: string;
+}
+
+// /api/suggest: typeahead results for a partial query
+export interface SuggestResponse {
+  success: boolean;
+  query: string;
+  completions: string[];
+  brands: FacetValue[];
+  categories: Array<FacetValue & { field: string }>;
+  products: ProductSuggestion[];
+  error?: string;
+}
+
+export type ProductSuggestion = Pick<
+  Product,
+  'sku' | 'name' | 'brand' | 'price' | 'sale_price' | 'slug'
+> & { image?: string };
+
+export interface FacetValue {
+  value: string;
+  label: string;
+  count: number;
+}
+
+export interface FacetResult {
+  field: string;
+  label: string;
+  values: FacetValue[];
+}
+
+export type SelectedFacets = Record<string, string[]>;
+
 export interface Collection {
   id: string;
   name: string;
@@ -101,6 +262,7 @@ export interface Collection {
   fields?: number;
 }
 
+// Scoring knobs of a ranking profile (app/lib/ranking-profiles.ts)
 export interface SearchParameters {
   salesBoost: number;
   relevanceThreshold: number;
@@ -0,0 +1,10 @@
+// app/lib/slugify.ts
+
+// Ids derived from names and terms: lower-case words joined by hyphens
+export function slugify(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 100);
+}
@@ -0,0 +1,209 @@
+// app/lib/spelling.ts
+import type { Client } from 'typesense';
+import { getTypesenseClient, COLLECTION_NAME } from './typesense-config';
+import { getCatalogVocabulary } from './catalog-vocabulary';
+
+export interface SpellingCorrection {
+  original: string;
+  corrected: string;
+  confidence: number; // 0-1; the weakest of the corrected tokens
+  corrections: Array<{ from: string; to: string }>;
+}
+
+// token -> number of catalog values it appears in
+export type SpellingDictionary = Map<string, number>;
+
+const WORD_PATTERN = /[a-z][a-z'-]*/gi;
+const MIN_TOKEN_LENGTH = 4; // Shorter tokens have too many near neighbours
+// Names of the best sellers supply the everyday product words
+const NAME_SAMPLE_SIZE = parseInt(process.env.SPELLING_NAME_SAMPLE || '1000');
+const NAMES_PER_PAGE = 250;
+const DICTIONARY_TTL_MS = parseInt(process.env.VOCABULARY_CACHE_TTL || '3600') * 1000;
+
+// Per client, like the catalog vocabulary it's built from
+const dictionaries = new WeakMap<Client, Map<string, Promise<SpellingDictionary | null>>>();
+
+// Tokens from the collection's brands, categories and product names
+export function getSpellingDictionary(
+  collection: string = COLLECTION_NAME,
+  client: Client = getTypesenseClient()
+): Promise<SpellingDictionary | null> {
+  const cache = dictionariesFor(client);
+  const existing = cache.get(collection);
+  if (existing) return existing;
+
+  const loading = loadDictionary(collection, client).then((dictionary) => {
+    // Same lifecycle as the catalog vocabulary: retry failures, expire successes
+    if (!dictionary) {
+      cache.delete(collection);
+    } else {
+      setTimeout(() => cache.delete(collection), DICTIONARY_TTL_MS).unref?.();
+    }
+    return dictionary;
+  });
+
+  cache.set(collection, loading);
+  return loading;
+}
+
+export async function suggestSpelling(
+  query: string,
+  collection?: string,
+  client?: Client
+): Promise<SpellingCorrection | null> {
+  const dictionary = await getSpellingDictionary(collection, client);
+  return dictionary ? correctQuery(query, dictionary) : null;
+}
+
+function dictionariesFor(client: Client): Map<string, Promise<SpellingDictionary | null>> {
+  let cache = dictionaries.get(client);
+  if (!cache) {
+    cache = new Map();
+    dictionaries.set(client, cache);
+  }
+  return cache;
+}
+
+async function loadDictionary(
+  collection: string,
+  client: Client
+): Promise<SpellingDictionary | null> {
+  const [vocabulary, names] = await Promise.all([
+    getCatalogVocabulary(collection, client),
+    loadProductNames(collection, client),
+  ]);
+  if (!vocabulary && names.length === 0) return null;
+
+  return buildSpellingDictionary([
+    ...(vocabulary ? vocabulary.brands.values() : []),
+    ...(vocabulary ? vocabulary.categories.values() : []),
+    ...names,
+  ]);
+}
+
+async function loadProductNames(collection: string, client: Client): Promise<string[]> {
+  const pages = Math.ceil(NAME_SAMPLE_SIZE / NAMES_PER_PAGE);
+  try {
+    const results = await client.multiSearch.perform({
+      searches: Array.from({ length: pages }, (_, i) => ({
+        collection,
+        q: '*',
+        sort_by: 'sales_count:desc',
+        include_fields: 'name',
+        per_page: NAMES_PER_PAGE,
+        page: i + 1,
+      })) as any[],
+    });
+
+    return (results.results || []).flatMap((result: any) =>
+      result.error ? [] : (result.hits || []).map((hit: any) => String(hit.document.name || ''))
+    );
+  } catch (error) {
+    console.error(`Could not load product names for ${collection}:`, error);
+    return [];
+  }
+}
+
+export function buildSpellingDictionary(values: Iterable<string>): SpellingDictionary {
+  const dictionary: SpellingDictionary = new Map();
+  for (const value of values) {
+    for (const token of new Set(tokenize(value))) {
+      dictionary.set(token, (dictionary.get(token) || 0) + 1);
+    }
+  }
+  return dictionary;
+}
+
+// Replaces tokens the catalog doesn't know with the closest known token.
+// Returns null when every token is known or nothing close enough exists.
+export function correctQuery(
+  query: string,
+  dictionary: SpellingDictionary
+): SpellingCorrection | null {
+  const corrections: SpellingCorrection['corrections'] = [];
+  let confidence = 1;
+
+  const corrected = query.replace(WORD_PATTERN, (word) => {
+    const token = word.toLowerCase();
+    if (token.length < MIN_TOKEN_LENGTH || dictionary.has(token)) return word;
+
+    const match = closestToken(token, dictionary);
+    if (!match) return word;
+
+    corrections.push({ from: word, to: match.token });
+    confidence = Math.min(confidence, match.confidence);
+    return match.token;
+  });
+
+  if (corrections.length === 0) return null;
+  return { original: query, corrected, confidence, corrections };
+}
+
+// Re-applies a correction's token fixes to another form of the query, e.g.
+// the full text when the correction was computed on the cleaned query
+export function applyCorrections(text: string, correction: SpellingCorrection): string {
+  const fixes = new Map(correction.corrections.map((c) => [c.from.toLowerCase(), c.to]));
+  return text.replace(WORD_PATTERN, (word) => fixes.get(word.toLowerCase()) ?? word);
+}
+
+function closestToken(
+  token: string,
+  dictionary: SpellingDictionary
+): { token: string; confidence: number } | null {
+  const maxDistance = token.length >= 8 ? 2 : 1;
+  let bestDistance = maxDistance + 1;
+  let candidates: Array<{ token: string; frequency: number }> = [];
+
+  for (const [candidate, frequency] of dictionary) {
+    if (Math.abs(candidate.length - token.length) > maxDistance) continue;
+    const distance = editDistance(token, candidate, maxDistance);
+    if (distance > maxDistance) continue;
+    if (distance < bestDistance) {
+      bestDistance = distance;
+      candidates = [{ token: candidate, frequency }];
+    } else if (distance === bestDistance) {
+      candidates.push({ token: candidate, frequency });
+    }
+  }
+
+  if (candidates.length === 0) return null;
+
+  // Prefer the token that appears in more catalog values
+  candidates.sort((a, b) => b.frequency - a.frequency || a.token.localeCompare(b.token));
+  const tied = candidates.length > 1 && candidates[1].frequency === candidates[0].frequency;
+
+  // One edit in a long word is more certain than one in a short word, and an
+  // unresolved tie between equally common candidates halves the confidence
+  const confidence = (1 - bestDistance / token.length) * (tied ? 0.5 : 1);
+  return { token: candidates[0].token, confidence };
+}
+
+// Optimal string alignment distance (Levenshtein plus adjacent swaps),
+// abandoning early once every path exceeds maxDistance
+function editDistance(a: string, b: string, maxDistance: number): number {
+  let previousPrevious: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, previousPrevious[j - 2] + 1);
+      }
+      current.push(value);
+      rowMin = Math.min(rowMin, value);
+    }
+    if (rowMin > maxDistance) return maxDistance + 1;
+    previousPrevious = previous;
+    previous = current;
+  }
+
+  return previous[b.length];
+}
+
+function tokenize(value: string): string[] {
+  return value.toLowerCase().match(/[a-z][a-z'-]*/g) || [];
+}
@@ -0,0 +1,172 @@
+// app/lib/synonyms.ts
+import { csvField, parseCsvRows } from './csv';
+import { getTypesenseClient } from './typesense-config';
+import { slugify } from './slugify';
+
+// Multi-way: every term matches every other ("cambro", "food storage box").
+// One-way: searching the root also matches the synonyms, not the reverse
+// ("hotel pan" -> "steam table pan", "full size pan").
+export type SynonymType = 'multi-way' | 'one-way';
+
+export interface SynonymRule {
+  id: string;
+  type: SynonymType;
+  root?: string; // One-way only
+  synonyms: string[];
+}
+
+export class SynonymValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SynonymValidationError';
+  }
+}
+
+const MAX_TERMS = 50;
+const MAX_TERM_LENGTH = 100;
+const CSV_HEADER = ['id', 'type', 'root', 'synonyms'];
+// Terms inside the CSV synonyms column
+const TERM_SEPARATOR = '|';
+
+export async function listSynonyms(collection: string): Promise<SynonymRule[]> {
+  const { synonyms } = await getTypesenseClient().collections(collection).synonyms().retrieve();
+  return synonyms
+    .map((s) => ({
+      id: s.id,
+      type: s.root ? ('one-way' as const) : ('multi-way' as const),
+      ...(s.root ? { root: s.root } : {}),
+      synonyms: s.synonyms,
+    }))
+    .sort((a, b) => a.id.localeCompare(b.id));
+}
+
+export async function upsertSynonym(collection: string, rule: SynonymRule): Promise<SynonymRule> {
+  await getTypesenseClient()
+    .collections(collection)
+    .synonyms()
+    .upsert(rule.id, {
+      synonyms: rule.synonyms,
+      ...(rule.type === 'one-way' ? { root: rule.root } : {}),
+    });
+  return rule;
+}
+
+export async function deleteSynonym(collection: string, id: string): Promise<void> {
+  await getTypesenseClient().collections(collection).synonyms(id).delete();
+}
+
+// Validates untrusted input (JSON body or CSV row) into a rule. A missing id
+// is derived from the root or first term so re-imports update in place.
+export function validateSynonymRule(input: unknown): SynonymRule {
+  if (!input || typeof input !== 'object') {
+    throw new SynonymValidationError('Rule must be an object');
+  }
+  const raw = input as Record<string, unknown>;
+
+  const type = raw.type ?? (raw.root ? 'one-way' : 'multi-way');
+  if (type !== 'one-way' && type !== 'multi-way') {
+    throw new SynonymValidationError('type must be "one-way" or "multi-way"');
+  }
+
+  const synonyms = normalizeTerms(raw.synonyms);
+  const root = type === 'one-way' ? normalizeTerm(raw.root) : undefined;
+
+  if (type === 'one-way' && !root) {
+    throw new SynonymValidationError('One-way rules need a root term');
+  }
+  if (synonyms.length < (type === 'one-way' ? 1 : 2)) {
+    throw new SynonymValidationError(
+      type === 'one-way'
+        ? 'One-way rules need at least one synonym'
+        : 'Multi-way rules need at least two terms'
+    );
+  }
+  if (synonyms.length > MAX_TERMS) {
+    throw new SynonymValidationError(`At most ${MAX_TERMS} terms per rule`);
+  }
+
+  const id =
+    typeof raw.id === 'string' && raw.id.trim()
+      ? slugify(raw.id)
+      : slugify(`${type === 'one-way' ? root : synonyms[0]}-synonyms`);
+  if (!id) {
+    throw new SynonymValidationError('Could not derive a rule id');
+  }
+
+  return { id, type, ...(root ? { root } : {}), synonyms };
+}
+
+export function synonymsToCsv(rules: SynonymRule[]): string {
+  const rows = rules.map((rule) => [
+    rule.id,
+    rule.type,
+    rule.root || '',
+    rule.synonyms.join(TERM_SEPARATOR),
+  ]);
+  return [CSV_HEADER, ...rows].map((row) => row.map(csvField).join(',')).join('\n') + '\n';
+}
+
+// Parses CSV written by synonymsToCsv (or by hand in a spreadsheet). Errors
+// name the line so a bad row can be found in a large file.
+export function parseSynonymCsv(text: string): SynonymRule[] {
+  const rows = parseCsvRows(text).filter((row) => row.some((cell) => cell.trim()));
+  if (rows.length === 0) return [];
+
+  const header = rows[0].map((cell) => cell.trim().toLowerCase());
+  const hasHeader = header.includes('synonyms');
+  const columns = hasHeader ? header : CSV_HEADER;
+
+  // Rules are upserted by id, so a repeated id would silently replace the
+  // earlier row. Ids derived from the terms collide too ("Soda" and "soda!").
+  const lineById = new Map<string, number>();
+
+  return rows.slice(hasHeader ? 1 : 0).map((row, index) => {
+    const line = index + (hasHeader ? 2 : 1);
+    const record: Record<string, string> = {};
+    columns.forEach((column, i) => {
+      record[column] = (row[i] || '').trim();
+    });
+
+    let rule: SynonymRule;
+    try {
+      rule = validateSynonymRule({
+        id: record.id || undefined,
+        type: record.type || undefined,
+        root: record.root || undefined,
+        synonyms: record.synonyms ? record.synonyms.split(TERM_SEPARATOR) : [],
+      });
+    } catch (error: any) {
+      throw new SynonymValidationError(`Line ${line}: ${error.message}`);
+    }
+
+    const firstLine = lineById.get(rule.id);
+    if (firstLine !== undefined) {
+      throw new SynonymValidationError(
+        `Line ${line}: id "${rule.id}" is already used on line ${firstLine}` +
+          (record.id ? '' : '; give one of the rows its own id')
+      );
+    }
+    lineById.set(rule.id, line);
+    return rule;
+  });
+}
+
+function normalizeTerms(value: unknown): string[] {
+  const items = Array.isArray(value)
+    ? value
+    : typeof value === 'string'
+      ? value.split(',')
+      : [];
+  const terms = items.map(normalizeTerm).filter((t): t is string => !!t);
+  return [...new Set(terms)];
+}
+
+function normalizeTerm(value: unknown): string | undefined {
+  if (typeof value !== 'string') return undefined;
+  const term = value.trim().replace(/\s+/g, ' ').toLowerCase();
+  if (!term) return undefined;
+  if (term.length > MAX_TERM_LENGTH) {
+    throw new SynonymValidationError(`Term too long: "${term.slice(0, 20)}..."`);
+  }
+  return term;
+}
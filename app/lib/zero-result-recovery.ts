@@ -0,0 +1,115 @@
+// app/lib/zero-result-recovery.ts
+import type { ExtractedFilters, Product, RecoveryInfo } from './search-types';
+
+// What a recovery attempt changes relative to the original search
+export interface RecoveryAttempt {
+  info: RecoveryInfo;
+  extractedFilters: ExtractedFilters;
+  stockPriority: boolean;
+}
+
+// Extracted filters are relaxed cumulatively, least essential first. Price
+// goes last: it's usually the point of the query, and when it has to go the
+// results are reordered by how close they are to the requested range.
+export function filterRelaxations(
+  filters: ExtractedFilters,
+  stockPriority: boolean
+): RecoveryAttempt[] {
+  const attempts: RecoveryAttempt[] = [];
+  let current: ExtractedFilters = { ...filters };
+  let stock = stockPriority;
+  const relaxed: string[] = [];
+
+  const relax = (field: string, message: string, change: () => void) => {
+    change();
+    relaxed.push(field);
+    attempts.push({
+      info: { step: 'relax_filters', message, relaxedFilters: [...relaxed] },
+      extractedFilters: { ...current },
+      stockPriority: stock,
+    });
+  };
+
+  for (const attribute of filters.attributes || []) {
+    relax(
+      `attributes.${attribute}`,
+      `No ${attribute} matches; showing items that may not be ${attribute}`,
+      () => {
+        const remaining = (current.attributes || []).filter((a) => a !== attribute);
+        current = { ...current, attributes: remaining.length > 0 ? remaining : undefined };
+      }
+    );
+  }
+
+  if (filters.onSale) {
+    relax('onSale', 'No sale items match; showing regular prices too', () => {
+      current = { ...current, onSale: undefined };
+    });
+  }
+
+  if (filters.inStock || stockPriority) {
+    relax('inStock', 'No in-stock matches; including out-of-stock items', () => {
+      current = { ...current, inStock: undefined };
+      stock = false;
+    });
+  }
+
+  if (filters.brand) {
+    relax('brand', `No ${filters.brand} products match; showing other brands`, () => {
+      current = { ...current, brand: undefined };
+    });
+  }
+
+  if (filters.category) {
+    relax('category', `Nothing in ${filters.category}; showing other categories`, () => {
+      current = { ...current, category: undefined };
+    });
+  }
+
+  if (filters.minPrice !== undefined || filters.maxPrice !== undefined) {
+    relax('price', `No matches ${describePriceRange(filters)}; showing closest prices`, () => {
+      current = { ...current, minPrice: undefined, maxPrice: undefined };
+    });
+  }
+
+  return attempts;
+}
+
+// Stable sort by distance from the requested price range, keeping
+// out-of-stock items last as sortByStockStatus does
+export function sortByPriceProximity(
+  products: Product[],
+  filters: ExtractedFilters
+): Product[] {
+  const min = filters.minPrice ?? -Infinity;
+  const max = filters.maxPrice ?? Infinity;
+  const distance = (product: Product) => {
+    const price = product.sale_price || product.price;
+    if (price === undefined) return Infinity;
+    return price < min ? min - price : price > max ? price - max : 0;
+  };
+
+  return products
+    .map((product, index) => ({ product, index, distance: distance(product) }))
+    .sort(
+      (a, b) =>
+        Number(a.product.is_in_stock === false) - Number(b.product.is_in_stock === false) ||
+        a.distance - b.distance ||
+        a.index - b.index
+    )
+    .map(({ product }) => product);
+}
+
+export function describePriceRange(filters: ExtractedFilters): string {
+  const { minPrice, maxPrice } = filters;
+  if (minPrice !== undefined && maxPrice !== undefined) {
+    return `between ${formatPrice(minPrice)} and ${formatPrice(maxPrice)}`;
+  }
+  if (maxPrice !== undefined) return `under ${formatPrice(maxPrice)}`;
+  if (minPrice !== undefined) return `over ${formatPrice(minPrice)}`;
+  return '';
+}
+
+function formatPrice(value: number): string {
+  return Number.isInteger(value) ? `$${value}` : `$${value.toFixed(2)}`;
+}
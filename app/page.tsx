@@ -19,9 +19,39 @@ import SearchBar from "./components/SearchBar";
 import ProductCard from "./components/ProductCard";
 import PromptChips from "./components/PromptChips";
 import CollectionSelector from "./components/CollectionSelector";
-import type { Product, SearchResponse, Collection } from "./lib/search-types";
+import FacetSidebar from "./components/FacetSidebar";
+import type {
+  Product,
+  SearchResponse,
+  Collection,
+  DidYouMean,
+  FacetResult,
+  IdentifierLookupInfo,
+  RecoveryInfo,
+  SelectedFacets,
+} from "./lib/search-types";
 import { SearchStrategy } from "./lib/search-types";
+import type { RankingProfile } from "./lib/ranking-profiles";
 import FloatingVoiceButton from './components/FloatingVoiceButton';
+import { getSearchSessionId } from './lib/search-beacon';
+
+const PAGE_SIZE_OPTIONS = [12, 24, 48, 96];
+
+// The analysis context is an object from the analyzers; show the LLM summary
+// when there is one, otherwise the keywords the local analyzer matched
+function describeContext(context: any): string {
+  if (!context) return "";
+  if (typeof context === "string") return context;
+  if (context.summary) return context.summary;
+  const terms = [
+    ...(context.categories || []),
+    ...(context.attributes || []),
+    ...(context.intents || []),
+  ];
+  return terms.length > 0
+    ? `Looking for ${terms.join(", ")}`
+    : context.originalQuery || "";
+}
 
 export default function SearchPage() {
   const [results, setResults] = useState<Product[]>([]);
@@ -37,6 +67,18 @@ export default function SearchPage() {
   >("checking");
   const [showAIDetails, setShowAIDetails] = useState(true);
   const [appliedFilters, setAppliedFilters] = useState<any>({});
+  const [facets, setFacets] = useState<FacetResult[]>([]);
+  const [selectedFacets, setSelectedFacets] = useState<SelectedFacets>({});
+  const [pageSize, setPageSize] = useState(24);
+  const [activeQuery, setActiveQuery] = useState("");
+  // false after "search instead for", so paging and facets keep the typed query
+  const [spellCorrect, setSpellCorrect] = useState(true);
+  const [didYouMean, setDidYouMean] = useState<DidYouMean | null>(null);
+  const [found, setFound] = useState(0);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
+  // Clicks on any loaded page are attributed to the search that started it
+  const [searchId, setSearchId] = useState<string | undefined>();
 
   // Dynamic collections state
   const [collections, setCollections] = useState<Collection[]>([]);
@@ -52,14 +94,35 @@ export default function SearchPage() {
   const [suggestedChips, setSuggestedChips] = useState<string[]>([]);
   const [showAdvancedSettings, setShowAdvancedSettings] = useState(false);
   const [stockPriority, setStockPriority] = useState(true);
-  const [relevanceThreshold, setRelevanceThreshold] = useState(0.3);
+  const [relevanceThreshold, setRelevanceThreshold] = useState(0);
+  const [thresholdRemoved, setThresholdRemoved] = useState(0);
+  // The relevance threshold can leave found counting weak matches
+  const [foundIsUpperBound, setFoundIsUpperBound] = useState(false);
+  const [rankingProfiles, setRankingProfiles] = useState<RankingProfile[]>([]);
+  const [defaultProfile, setDefaultProfile] = useState("");
+  // Empty uses the collection's default profile
+  const [rankingProfile, setRankingProfile] = useState("");
   const [aiAnalysis, setAiAnalysis] = useState<any>(null);
+  const [recovery, setRecovery] = useState<RecoveryInfo | null>(null);
+  const [identifierLookup, setIdentifierLookup] =
+    useState<IdentifierLookupInfo | null>(null);
 
   // Fetch collections on mount
   useEffect(() => {
     fetchCollections();
   }, []);
 
+  useEffect(() => {
+    fetch("/api/ranking-profiles")
+      .then((res) => res.json())
+      .then((data) => {
+        if (!data.success) return;
+        setRankingProfiles(data.profiles);
+        setDefaultProfile(data.defaultProfile);
+      })
+      .catch((error) => console.error("Error fetching ranking profiles:", error));
+  }, []);
+
   // Check health on mount
   useEffect(() => {
     fetch("/api/health")
@@ -96,73 +159,151 @@ export default function SearchPage() {
     }
   };
 
+  const requestSearch = useCallback(
+    async (
+      query: string,
+      facetSelection: SelectedFacets,
+      cursor?: string,
+      spellCorrectQuery = true,
+      firstSearchId?: string
+    ): Promise<SearchResponse> => {
+      // Perform intelligent search; the server embeds the query if needed
+      const searchResponse = await fetch("/api/search", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          query,
+          salesBoost,
+          limit: pageSize,
+          cursor,
+          // Later pages belong to the first page's search in analytics
+          searchId: cursor ? firstSearchId : undefined,
+          collection: selectedCollection.id,
+          filters: stockPriority ? undefined : null,
+          facetFilters: facetSelection,
+          sessionId: getSearchSessionId(),
+          spellCorrect: spellCorrectQuery,
+          rankingProfile: rankingProfile || undefined,
+          relevanceThreshold,
+          // Score breakdowns back the "Why this rank" panels
+          debug: showScores || undefined,
+        }),
+      });
+
+      const data: SearchResponse = await searchResponse.json();
+      if (!data.success) {
+        throw new Error(data.error || "Search failed");
+      }
+      return data;
+    },
+    [
+      salesBoost,
+      pageSize,
+      selectedCollection,
+      stockPriority,
+      rankingProfile,
+      relevanceThreshold,
+      showScores,
+    ]
+  );
+
   const handleSearch = useCallback(
-    async (query: string) => {
+    async (
+      query: string,
+      facetSelection: SelectedFacets = {},
+      spellCorrectQuery = true
+    ) => {
       if (!query.trim()) return;
 
       setLoading(true);
       setError("");
       setHasSearched(true);
       setSearchTerm(query);
+      setActiveQuery(query);
+      setSpellCorrect(spellCorrectQuery);
+      setSelectedFacets(facetSelection);
 
       try {
-        let queryEmbedding: number[] | undefined;
-
-        // Generate embedding for potential semantic search
-        try {
-          const embeddingResponse = await fetch("/api/embeddings", {
-            method: "POST",
-            headers: { "Content-Type": "application/json" },
-            body: JSON.stringify({ query }),
-          });
-
-          if (embeddingResponse.ok) {
-            const embeddingData = await embeddingResponse.json();
-            queryEmbedding = embeddingData.embedding;
-          }
-        } catch (err) {
-          console.error("Failed to generate embedding:", err);
-        }
-
-        // Perform intelligent search
-        const searchResponse = await fetch("/api/search", {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({
-            query,
-            queryEmbedding,
-            salesBoost,
-            limit: 24,
-            collection: selectedCollection.id,
-            filters: stockPriority ? undefined : null,
-          }),
-        });
-
-        const data: SearchResponse = await searchResponse.json();
-        if (data.success) {
-          setResults(data.results);
-          setSearchTime(data.searchTime || 0);
-          setSearchStrategy(data.strategy || null);
-          setSuggestedChips(data.suggestedChips || []);
-          setAiAnalysis(data.aiAnalysis || null);
-          setAppliedFilters(data.appliedFilters || {}); // Add this
-        } else {
-          throw new Error(data.error || "Search failed");
-        }
+        const data = await requestSearch(
+          query,
+          facetSelection,
+          undefined,
+          spellCorrectQuery
+        );
+        setResults(data.results);
+        setSearchId(data.searchId);
+        setFound(data.found ?? data.count);
+        setThresholdRemoved(data.relevanceFilter?.removed || 0);
+        setFoundIsUpperBound(!!data.relevanceFilter?.foundIsUpperBound);
+        setNextCursor(data.nextCursor || null);
+        setSearchTime(data.searchTime || 0);
+        setSearchStrategy(data.strategy || null);
+        setSuggestedChips(data.suggestedChips || []);
+        setAiAnalysis(data.aiAnalysis || null);
+        setRecovery(data.recovery || null);
+        setIdentifierLookup(data.identifierLookup || null);
+        setDidYouMean(data.didYouMean || null);
+        setAppliedFilters(data.appliedFilters || {}); // Add this
+        setFacets(data.facets || []);
       } catch (err: any) {
         setError(err.message || "Search failed");
         setResults([]);
+        setRecovery(null);
+        setIdentifierLookup(null);
+        setDidYouMean(null);
+        setSearchId(undefined);
+        setFacets([]);
+        setFound(0);
+        setThresholdRemoved(0);
+        setNextCursor(null);
       } finally {
         setLoading(false);
       }
     },
-    [salesBoost, selectedCollection, stockPriority]
+    [requestSearch]
   );
 
+  const handleLoadMore = async () => {
+    if (!nextCursor || loadingMore) return;
+
+    setLoadingMore(true);
+    try {
+      const data = await requestSearch(
+        activeQuery,
+        selectedFacets,
+        nextCursor,
+        spellCorrect,
+        searchId
+      );
+      // Skip anything already shown in case the index shifted between pages
+      setResults((prev) => {
+        const seen = new Set(prev.map((p) => p.sku));
+        return [...prev, ...data.results.filter((p) => !seen.has(p.sku))];
+      });
+      setFound(data.found ?? found);
+      setNextCursor(data.nextCursor || null);
+    } catch (err: any) {
+      setError(err.message || "Failed to load more results");
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
   const handleChipClick = (chip: string) => {
     const newQuery = `${searchTerm} ${chip}`.trim();
     setSearchTerm(newQuery);
-    handleSearch(newQuery);
+    handleSearch(newQuery, selectedFacets);
+  };
+
+  const handleFacetToggle = (field: string, value: string) => {
+    const current = selectedFacets[field] || [];
+    const next: SelectedFacets = {
+      ...selectedFacets,
+      [field]: current.includes(value)
+        ? current.filter((v) => v !== value)
+        : [...current, value],
+    };
+    handleSearch(activeQuery, next, spellCorrect);
   };
 
   const handleCollectionChange = (collection: Collection) => {
@@ -265,6 +406,7 @@ export default function SearchPage() {
             onSearch={handleSearch}
             onQueryChange={setSearchTerm}
             loading={loading}
+            collection={selectedCollection.id}
           />
           <FloatingVoiceButton onSearch={handleSearch} />
 
@@ -313,8 +455,47 @@ export default function SearchPage() {
 
           {showAdvancedSettings && (
             <div className="px-6 pb-6 space-y-4 border-t">
+              {/* Ranking Profile */}
+              {rankingProfiles.length > 0 && (
+                <div className="pt-4">
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Ranking Profile
+                  </label>
+                  <select
+                    value={rankingProfile}
+                    onChange={(e) => {
+                      const name = e.target.value;
+                      const profile = rankingProfiles.find(
+                        (p) => p.name === (name || defaultProfile)
+                      );
+                      setRankingProfile(name);
+                      // Start the sliders from the profile's own values
+                      if (profile) {
+                        setSalesBoost(profile.parameters.salesBoost);
+                        setRelevanceThreshold(
+                          profile.parameters.relevanceThreshold
+                        );
+                      }
+                    }}
+                    className="w-full px-2 py-1 border border-gray-300 rounded text-sm"
+                  >
+                    <option value="">Collection default</option>
+                    {rankingProfiles.map((profile) => (
+                      <option key={profile.name} value={profile.name}>
+                        {profile.name}
+                      </option>
+                    ))}
+                  </select>
+                  <p className="text-xs text-gray-500 mt-1">
+                    {rankingProfiles.find(
+                      (p) => p.name === (rankingProfile || defaultProfile)
+                    )?.description || ""}
+                  </p>
+                </div>
+              )}
+
               {/* Sales Boost */}
-              <div className="pt-4">
+              <div className={rankingProfiles.length > 0 ? "" : "pt-4"}>
                 <label className="block text-sm font-medium text-gray-700 mb-2">
                   Sales Popularity Weight: {salesBoost.toFixed(1)}x
                 </label>
@@ -338,6 +519,49 @@ export default function SearchPage() {
                 </p>
               </div>
 
+              {/* Relevance Threshold */}
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Minimum Relevance:{" "}
+                  {relevanceThreshold === 0
+                    ? "Off"
+                    : `${Math.round(relevanceThreshold * 100)}%`}
+                </label>
+                <input
+                  type="range"
+                  min="0"
+                  max="0.9"
+                  step="0.05"
+                  value={relevanceThreshold}
+                  onChange={(e) =>
+                    setRelevanceThreshold(parseFloat(e.target.value))
+                  }
+                  className="w-full"
+                />
+                <p className="text-xs text-gray-500 mt-1">
+                  Hide weak matches: keyword results scoring below this share of
+                  the best match, and semantic results less similar than this
+                </p>
+              </div>
+
+              {/* Page Size */}
+              <div className="flex items-center justify-between">
+                <label className="text-sm font-medium text-gray-700">
+                  Results Per Page
+                </label>
+                <select
+                  value={pageSize}
+                  onChange={(e) => setPageSize(parseInt(e.target.value))}
+                  className="px-2 py-1 border border-gray-300 rounded text-sm"
+                >
+                  {PAGE_SIZE_OPTIONS.map((size) => (
+                    <option key={size} value={size}>
+                      {size}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
               {/* Stock Priority */}
               <div className="flex items-center justify-between">
                 <label className="text-sm font-medium text-gray-700">
@@ -411,7 +635,17 @@ export default function SearchPage() {
           <div className="bg-white rounded-lg shadow-sm p-4 mb-6">
             <div className="flex flex-wrap items-center gap-4 text-sm text-gray-600">
               <span>
-                Found <strong>{results.length}</strong> results
+                Found {foundIsUpperBound && "up to "}
+                <strong>{found.toLocaleString()}</strong> results
+                {found > results.length && (
+                  <> (showing {results.length})</>
+                )}
+                {thresholdRemoved > 0 && (
+                  <>
+                    , {thresholdRemoved} weak{" "}
+                    {thresholdRemoved === 1 ? "match" : "matches"} hidden
+                  </>
+                )}
               </span>
               {searchTime > 0 && (
                 <span>
@@ -494,10 +728,30 @@ export default function SearchPage() {
                     AI Understanding:
                   </span>
                   <p className="text-sm text-gray-700 mt-1 italic">
-                    "{aiAnalysis.context}"
+                    "{describeContext(aiAnalysis.context)}"
                   </p>
                 </div>
 
+                {aiAnalysis.sources && (
+                  <div>
+                    <span className="text-sm text-blue-700 font-medium">
+                      Decided By:
+                    </span>
+                    <div className="flex flex-wrap gap-2 mt-1">
+                      {Object.entries(
+                        aiAnalysis.sources as Record<string, string>
+                      ).map(([field, source]) => (
+                        <span
+                          key={field}
+                          className="px-2 py-1 bg-white text-xs text-gray-600 rounded-full border border-blue-200"
+                        >
+                          {field}: {source}
+                        </span>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
                 {aiAnalysis.suggestedTerms &&
                   aiAnalysis.suggestedTerms.length > 0 && (
                     <div>
@@ -523,6 +777,66 @@ export default function SearchPage() {
           </div>
         )}
 
+        {/* Spelling suggestion */}
+        {hasSearched && !loading && !error && didYouMean && (
+          <div className="mb-4 text-sm text-gray-700">
+            {didYouMean.applied ? (
+              <>
+                <p>
+                  Showing results for{" "}
+                  <strong className="italic">{didYouMean.suggestion}</strong>
+                </p>
+                <p className="text-xs text-gray-500">
+                  Search instead for{" "}
+                  <button
+                    onClick={() => handleSearch(didYouMean.original, {}, false)}
+                    className="text-blue-600 hover:underline"
+                  >
+                    {didYouMean.original}
+                  </button>
+                </p>
+              </>
+            ) : (
+              <p>
+                Did you mean{" "}
+                <button
+                  onClick={() => handleSearch(didYouMean.suggestion)}
+                  className="font-semibold italic text-blue-600 hover:underline"
+                >
+                  {didYouMean.suggestion}
+                </button>
+                ?
+              </p>
+            )}
+          </div>
+        )}
+
+        {/* Zero-result recovery explanation */}
+        {hasSearched && !loading && !error && recovery && (
+          <div className="bg-amber-50 border border-amber-200 rounded-lg p-4 mb-6 flex items-start gap-2">
+            <Info className="text-amber-600 flex-shrink-0 mt-0.5" size={20} />
+            <div className="text-sm text-amber-800">
+              <p>{recovery.message}</p>
+              {recovery.relaxedFilters && recovery.relaxedFilters.length > 1 && (
+                <p className="text-xs text-amber-700 mt-1">
+                  Filters relaxed:{" "}
+                  {recovery.relaxedFilters
+                    .map((f) => f.replace(/^attributes\./, ""))
+                    .join(", ")}
+                </p>
+              )}
+            </div>
+          </div>
+        )}
+
+        {/* Identifier lookups that didn't find the exact code */}
+        {hasSearched && !loading && !error && identifierLookup?.message && (
+          <div className="bg-amber-50 border border-amber-200 rounded-lg p-4 mb-6 flex items-start gap-2">
+            <Info className="text-amber-600 flex-shrink-0 mt-0.5" size={20} />
+            <p className="text-sm text-amber-800">{identifierLookup.message}</p>
+          </div>
+        )}
+
         {hasSearched &&
           !loading &&
           !error &&
@@ -553,6 +867,11 @@ export default function SearchPage() {
                     In Stock Only
                   </span>
                 )}
+                {appliedFilters.packSize && (
+                  <span className="px-3 py-1 bg-white text-sm text-green-700 rounded-full border border-green-300">
+                    Pack of {appliedFilters.packSize}
+                  </span>
+                )}
                 {appliedFilters.onSale && (
                   <span className="px-3 py-1 bg-white text-sm text-green-700 rounded-full border border-green-300">
                     On Sale
@@ -570,71 +889,112 @@ export default function SearchPage() {
             </div>
           )}
 
-        {/* Results Grid */}
-        {loading ? (
-          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4">
-            {[...Array(8)].map((_, i) => (
-              <div
-                key={i}
-                className="bg-white rounded-lg shadow-md p-4 animate-pulse"
-              >
-                <div className="bg-gray-200 h-48 rounded mb-3"></div>
-                <div className="h-4 bg-gray-200 rounded mb-2"></div>
-                <div className="h-3 bg-gray-200 rounded w-2/3"></div>
+        <div className="flex flex-col lg:flex-row gap-6">
+          {/* Facet Sidebar */}
+          {hasSearched &&
+            !error &&
+            (facets.length > 0 || Object.keys(selectedFacets).length > 0) && (
+              <div className="lg:w-64 flex-shrink-0">
+                <FacetSidebar
+                  facets={facets}
+                  selected={selectedFacets}
+                  onToggle={handleFacetToggle}
+                  onClear={() => handleSearch(activeQuery, {}, spellCorrect)}
+                />
               </div>
-            ))}
-          </div>
-        ) : results.length > 0 ? (
-          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4">
-            {results.map((product) => (
-              <ProductCard
-                key={product.sku}
-                product={product}
-                showScore={showScores}
-                collectionName={selectedCollection.name}
-              />
-            ))}
-          </div>
-        ) : hasSearched && !error ? (
-          <div className="bg-white rounded-lg shadow-md p-12 text-center">
-            <Package size={48} className="mx-auto text-gray-400 mb-4" />
-            <h3 className="text-lg font-semibold text-gray-700 mb-2">
-              No results found
-            </h3>
-            <p className="text-gray-500">
-              Try adjusting your search or selecting a different collection
-            </p>
-          </div>
-        ) : !hasSearched ? (
-          <div className="bg-white rounded-lg shadow-md p-12 text-center">
-            <Sparkles size={48} className="mx-auto text-gray-400 mb-4" />
-            <h3 className="text-lg font-semibold text-gray-700 mb-2">
-              Intelligent Search Ready
-            </h3>
-            <p className="text-gray-500 mb-4">
-              Search across{" "}
-              {collections.length > 0
-                ? `${collections.length - 1} collection${
-                    collections.length > 2 ? "s" : ""
-                  }`
-                : "your collections"}
-            </p>
-            <div className="flex items-center justify-center gap-6 text-sm text-gray-600">
-              <div className="flex items-center gap-2">
-                <Zap className="w-4 h-4 text-blue-600" />
-                <span>Exact Match</span>
+            )}
+
+          <div className="flex-1 min-w-0">
+            {/* Results Grid */}
+            {loading ? (
+              <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4">
+                {[...Array(8)].map((_, i) => (
+                  <div
+                    key={i}
+                    className="bg-white rounded-lg shadow-md p-4 animate-pulse"
+                  >
+                    <div className="bg-gray-200 h-48 rounded mb-3"></div>
+                    <div className="h-4 bg-gray-200 rounded mb-2"></div>
+                    <div className="h-3 bg-gray-200 rounded w-2/3"></div>
+                  </div>
+                ))}
               </div>
-              <div className="flex items-center gap-2">
-                <Sparkles className="w-4 h-4 text-purple-600" />
-                <span>AI Understanding</span>
+            ) : results.length > 0 ? (
+              <>
+                <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4">
+                  {results.map((product, index) => (
+                    <ProductCard
+                      key={`${product.source_collection || ""}:${product.sku}`}
+                      product={product}
+                      showScore={showScores}
+                      collectionName={selectedCollection.name}
+                      searchId={searchId}
+                      rank={index + 1}
+                    />
+                  ))}
+                </div>
+
+                {/* Pagination */}
+                {nextCursor && (
+                  <div className="mt-6 flex flex-col items-center gap-2">
+                    <button
+                      onClick={handleLoadMore}
+                      disabled={loadingMore}
+                      className="flex items-center gap-2 px-6 py-2 bg-white border border-gray-300 rounded-lg text-sm font-medium text-gray-700 hover:bg-gray-50 transition-colors disabled:opacity-50"
+                    >
+                      {loadingMore && <Loader2 className="w-4 h-4 animate-spin" />}
+                      Load more results
+                    </button>
+                    <span className="text-xs text-gray-500">
+                      Showing {results.length.toLocaleString()} of{" "}
+                      {foundIsUpperBound && "up to "}
+                      {found.toLocaleString()}
+                    </span>
+                  </div>
+                )}
+              </>
+            ) : hasSearched && !error ? (
+              <div className="bg-white rounded-lg shadow-md p-12 text-center">
+                <Package size={48} className="mx-auto text-gray-400 mb-4" />
+                <h3 className="text-lg font-semibold text-gray-700 mb-2">
+                  No results found
+                </h3>
+                <p className="text-gray-500">
+                  Try adjusting your search or selecting a different collection
+                </p>
               </div>
-              <div className="flex items-center gap-2">
-                <Search className="w-4 h-4 text-green-600" />
-                <span>Text Search</span>
+            ) : !hasSearched ? (
+              <div className="bg-white rounded-lg shadow-md p-12 text-center">
+                <Sparkles size={48} className="mx-auto text-gray-400 mb-4" />
+                <h3 className="text-lg font-semibold text-gray-700 mb-2">
+                  Intelligent Search Ready
+                </h3>
+                <p className="text-gray-500 mb-4">
+                  Search across{" "}
+                  {collections.length > 0
+                    ? `${collections.length - 1} collection${
+                        collections.length > 2 ? "s" : ""
+                      }`
+                    : "your collections"}
+                </p>
+                <div className="flex items-center justify-center gap-6 text-sm text-gray-600">
+                  <div className="flex items-center gap-2">
+                    <Zap className="w-4 h-4 text-blue-600" />
+                    <span>Exact Match</span>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Sparkles className="w-4 h-4 text-purple-600" />
+                    <span>AI Understanding</span>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Search className="w-4 h-4 text-green-600" />
+                    <span>Text Search</span>
+                  </div>
+                </div>
               </div>
-            </div>
+            ) : null}
           </div>
-        ) : null}
+        </div>
       </div>
     </div>
   );
@@ -0,0 +1,17 @@
+// instrumentation.ts
+// Runs once when the Next.js server starts
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== 'nodejs') return;
+
+  const { logTypesenseConfig } = await import('./app/lib/typesense-config');
+  const { validateEmbeddingDimensions } = await import('./app/lib/embedding-provider');
+
+  logTypesenseConfig();
+
+  const check = await validateEmbeddingDimensions();
+  if (check.ok) {
+    console.log(
+      `Embedding provider: ${check.provider} (${check.model}, ${check.providerDimensions} dimensions) matches ${check.collection}`
+    );
+  }
+}
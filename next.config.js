@@ -1,5 +1,11 @@
 /** @type {import('next').NextConfig} */
 const nextConfig = {
+  experimental: {
+    // Enables instrumentation.ts (startup embedding dimension check)
+    instrumentationHook: true,
+    // Native ONNX runtime used by the local embedding provider
+    serverComponentsExternalPackages: ['@xenova/transformers'],
+  },
   images: {
     remotePatterns: [
       {
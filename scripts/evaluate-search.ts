@@ -0,0 +1,198 @@
+// scripts/evaluate-search.ts
+//
+// Scores search relevance against a judged query set:
+//
+//   npm run evaluate -- --queries judged.csv --collection products_en-US_v10_copy \
+//     [--k 10] [--config baseline.json] [--compare candidate.json] [--json report.json]
+//
+// Queries go through the same SearchService as /api/search, so they get the
+// same analysis, filters, retrieval and re-ranking as the app, against the
+// Typesense in TYPESENSE_*. The LLM intent step is switched off and
+// embeddings come from the stub provider unless EMBEDDING_PROVIDER is set.
+//
+// The service recovers from failed searches by falling back or returning
+// nothing and lists what it got past in the response's degraded field; such
+// a query fails instead, and the script exits with status 1 when one did.
+import { readFileSync, writeFileSync } from 'fs';
+import path from 'path';
+import { parseArgs } from 'util';
+import {
+  compareReports,
+  evaluate,
+  isZeroResult,
+  parseEvaluationConfig,
+  parseJudgedQueries,
+  registerEvaluationProfiles,
+} from '../app/lib/evaluation';
+import type { SearchLogger } from '../app/lib/search-service';
+import type {
+  EvaluationComparison,
+  EvaluationConfig,
+  EvaluationReport,
+  QueryEvaluation,
+  SearchRunner,
+} from '../app/lib/evaluation';
+
+// Read by the search libraries at import time, so set before loading them
+process.env.EMBEDDING_PROVIDER ||= 'stub';
+
+const MAX_K = 100; // SearchService's MAX_SEARCH_LIMIT default
+const CHANGED_QUERIES_SHOWN = 10;
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      queries: { type: 'string' },
+      collection: { type: 'string' },
+      k: { type: 'string', default: '10' },
+      config: { type: 'string' },
+      compare: { type: 'string' },
+      json: { type: 'string' },
+      verbose: { type: 'boolean', default: false },
+    },
+  });
+
+  if (!values.queries) {
+    throw new Error('--queries <file.json|file.csv> is required');
+  }
+  const k = parseInt(values.k!);
+  if (!(k >= 1 && k <= MAX_K)) {
+    throw new Error(`--k must be from 1 to ${MAX_K}`);
+  }
+
+  const queries = parseJudgedQueries(
+    readFileSync(values.queries, 'utf8'),
+    path.extname(values.queries).toLowerCase() === '.csv' ? 'csv' : 'json'
+  );
+  const configs = [loadConfig(values.config, 'baseline')];
+  if (values.compare) configs.push(loadConfig(values.compare, 'candidate'));
+  if (configs.length === 2 && configs[0].name === configs[1].name) {
+    configs[1].name += ' (compare)';
+  }
+  registerEvaluationProfiles(configs);
+
+  // The service logs every search; keep the report readable
+  const logger: SearchLogger = {
+    log: values.verbose ? console.log : () => {},
+    warn: console.warn,
+    error: values.verbose ? console.error : () => {},
+  };
+
+  // No LLM and no response cache, so runs are repeatable
+  const { SearchService } = await import('../app/lib/search-service');
+  const service = new SearchService({ intent: null, responseCache: null, logger });
+  const runSearch: SearchRunner = async (query, config, limit) => {
+    const { response } = await service.search({
+      ...config.options,
+      query,
+      collection: values.collection,
+      limit,
+    });
+    if (response.degraded) throw new Error(response.degraded.join('; '));
+    return response;
+  };
+
+  const reports: EvaluationReport[] = [];
+  for (const config of configs) {
+    process.stderr.write(`Running ${queries.length} queries with ${config.name}...\n`);
+    reports.push(await evaluate(queries, config, k, runSearch));
+  }
+
+  const output =
+    reports.length === 2 ? compareReports(reports[0], reports[1]) : reports[0];
+  process.stdout.write(
+    'baseline' in output ? formatComparison(output) : formatReport(output)
+  );
+  if (values.json) {
+    writeFileSync(values.json, JSON.stringify(output, null, 2) + '\n');
+  }
+
+  const failed = reports.reduce((sum, report) => sum + report.metrics.errors, 0);
+  if (failed > 0) {
+    process.stderr.write(`${failed} ${failed === 1 ? 'search' : 'searches'} failed\n`);
+    process.exitCode = 1;
+  }
+}
+
+// A path to a JSON file, or inline JSON
+function loadConfig(source: string | undefined, fallbackName: string): EvaluationConfig {
+  if (!source) return { name: fallbackName, options: {} };
+  const text = source.trim().startsWith('{') ? source : readFileSync(source, 'utf8');
+  const name = source.trim().startsWith('{')
+    ? fallbackName
+    : path.basename(source, path.extname(source));
+  return parseEvaluationConfig(JSON.parse(text), name);
+}
+
+const fixed = (value: number) => value.toFixed(4);
+const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+const signed = (value: number, format: (v: number) => string) =>
+  `${value >= 0 ? '+' : ''}${format(value)}`;
+
+function formatReport(report: EvaluationReport): string {
+  const { metrics, k } = report;
+  const lines = [
+    `${report.config}: ${metrics.queries} queries, k=${k}`,
+    `  NDCG@${k}`.padEnd(22) + fixed(metrics.ndcg),
+    `  MRR`.padEnd(22) + fixed(metrics.mrr),
+    `  Recall@${k}`.padEnd(22) + fixed(metrics.recall),
+    `  Zero-result rate`.padEnd(22) + percent(metrics.zeroResultRate),
+    ...problemLines(report),
+  ];
+  return lines.join('\n') + '\n';
+}
+
+function formatComparison(comparison: EvaluationComparison): string {
+  const { baseline, candidate, deltas } = comparison;
+  const a = baseline.metrics;
+  const b = candidate.metrics;
+  const k = baseline.k;
+  const row = (label: string, x: string, y: string, delta: string) =>
+    label.padEnd(20) + x.padStart(12) + y.padStart(12) + delta.padStart(12);
+
+  const lines = [
+    `${a.queries} queries, k=${k}`,
+    row('', baseline.config.slice(0, 11), candidate.config.slice(0, 11), 'delta'),
+    row(`NDCG@${k}`, fixed(a.ndcg), fixed(b.ndcg), signed(deltas.ndcg, fixed)),
+    row('MRR', fixed(a.mrr), fixed(b.mrr), signed(deltas.mrr, fixed)),
+    row(`Recall@${k}`, fixed(a.recall), fixed(b.recall), signed(deltas.recall, fixed)),
+    row(
+      'Zero-result rate',
+      percent(a.zeroResultRate),
+      percent(b.zeroResultRate),
+      signed(deltas.zeroResultRate, percent)
+    ),
+    '',
+    `NDCG@${k} improved on ${comparison.improved} queries and worsened on ${comparison.worsened}`,
+  ];
+
+  if (comparison.changed.length > 0) {
+    lines.push('Largest changes:');
+    for (const change of comparison.changed.slice(0, CHANGED_QUERIES_SHOWN)) {
+      lines.push(
+        `  ${signed(change.delta, fixed)}  ${fixed(change.baseline)} -> ${fixed(change.candidate)}  "${change.query}"`
+      );
+    }
+  }
+  for (const report of [baseline, candidate]) {
+    const problems = problemLines(report);
+    if (problems.length > 0) lines.push('', `${report.config}:`, ...problems);
+  }
+  return lines.join('\n') + '\n';
+}
+
+function problemLines(report: EvaluationReport): string[] {
+  const failed = report.queries.filter((q) => q.error);
+  const empty = report.queries.filter((q) => !q.error && isZeroResult(q));
+  const label = (q: QueryEvaluation) =>
+    q.recovery ? `"${q.query}" (recovered: ${q.recovery})` : `"${q.query}"`;
+  return [
+    ...(empty.length > 0 ? [`  No results: ${empty.map(label).join(', ')}`] : []),
+    ...failed.map((q) => `  Failed: "${q.query}": ${q.error}`),
+  ];
+}
+
+main().catch((error) => {
+  console.error(error.message || error);
+  process.exit(1);
+});
@@ -0,0 +1,70 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { resolveSearchId, summarizeEvents } from '../app/lib/analytics';
+import type { AnalyticsEvent, SearchEvent } from '../app/lib/analytics';
+import { summarizeExperiments } from '../app/lib/experiments';
+
+const FIRST_ID = '3f2b8c1e-5d4a-4e7b-9a6c-0d1e2f3a4b5c';
+
+function search(searchId: string, page: number, overrides: Partial<SearchEvent> = {}): SearchEvent {
+  return {
+    type: 'search',
+    searchId,
+    timestamp: 0,
+    query: 'cups',
+    cleanQuery: 'cups',
+    strategy: 'keyword',
+    confidence: null,
+    filters: {},
+    resultCount: 24,
+    found: 100,
+    latencyMs: 10,
+    collection: 'products',
+    page,
+    cached: false,
+    experiment: 'ranking',
+    variant: 'control',
+    ...overrides,
+  };
+}
+
+// One query loaded over three pages, with a click on the third
+const events: AnalyticsEvent[] = [
+  search(FIRST_ID, 1),
+  search(FIRST_ID, 2),
+  search(FIRST_ID, 3),
+  { type: 'click', searchId: FIRST_ID, timestamp: 0, sku: 'A', rank: 60 },
+  search('other', 1, { query: 'lids', variant: 'candidate' }),
+];
+
+describe('resolveSearchId', () => {
+  it('keeps the first page\'s searchId for cursor requests', () => {
+    assert.equal(resolveSearchId({ cursor: 'c', searchId: FIRST_ID }), FIRST_ID);
+  });
+
+  it('issues a new id for first pages and ids that are not ours', () => {
+    assert.notEqual(resolveSearchId({ searchId: FIRST_ID }), FIRST_ID);
+    assert.notEqual(resolveSearchId({ cursor: 'c', searchId: 'not-an-id' }), 'not-an-id');
+  });
+});
+
+describe('summarizeEvents', () => {
+  it('counts a query loaded over several pages as one search', () => {
+    const report = summarizeEvents(events, 0, 1);
+    assert.equal(report.totalSearches, 2);
+    assert.deepEqual(report.topQueries, [
+      { query: 'cups', count: 1 },
+      { query: 'lids', count: 1 },
+    ]);
+    assert.equal(report.clickThroughRate, 0.5);
+  });
+});
+
+describe('summarizeExperiments', () => {
+  it('counts later pages toward the search they continue', () => {
+    const [report] = summarizeExperiments(events);
+    const control = report.variants.find((v) => v.variant === 'control')!;
+    assert.equal(control.searches, 1);
+    assert.equal(control.clickThroughRate, 1);
+  });
+});
@@ -0,0 +1,34 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { evaluate } from '../app/lib/evaluation';
+import type { SearchRunner } from '../app/lib/evaluation';
+import type { Product } from '../app/lib/search-types';
+
+const product = (sku: string) => ({ sku, name: sku }) as Product;
+
+describe('evaluate', () => {
+  it('counts recovered and empty queries as zero-result, like analytics', async () => {
+    const runSearch: SearchRunner = async (query) => {
+      if (query === 'cups') return { results: [product('A')], found: 1 };
+      if (query === 'cupz') {
+        return {
+          results: [product('A')],
+          found: 1,
+          recovery: { step: 'spelling', message: 'Showing results for "cups"' },
+        };
+      }
+      if (query === 'broken') throw new Error('Typesense unavailable');
+      return { results: [], found: 0 };
+    };
+    const queries = ['cups', 'cupz', 'nothing', 'broken'].map((query) => ({
+      query,
+      judgments: { A: 1 },
+    }));
+
+    const report = await evaluate(queries, { name: 'baseline', options: {} }, 10, runSearch);
+
+    assert.equal(report.metrics.errors, 1);
+    assert.equal(report.metrics.zeroResultRate, 2 / 3);
+    assert.equal(report.queries[1].recovery, 'spelling');
+  });
+});
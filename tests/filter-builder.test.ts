@@ -0,0 +1,34 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import {
+  FilterValidationError,
+  parseStructuredFilters,
+  renderFilter,
+} from '../app/lib/filter-builder';
+
+describe('parseStructuredFilters', () => {
+  it('renders filterable fields', () => {
+    assert.equal(
+      renderFilter(parseStructuredFilters({ brand: ['Solo', 'Dart'], price: { max: 5 } })),
+      '(brand:=[`Solo`,`Dart`] && price:<=5)'
+    );
+  });
+
+  it('rejects keys inherited from Object.prototype', () => {
+    for (const key of ['constructor', 'toString', '__proto__']) {
+      assert.throws(
+        () => parseStructuredFilters(JSON.parse(`{"${key}": "x"}`)),
+        FilterValidationError
+      );
+    }
+  });
+});
+
+describe('renderFilter', () => {
+  it('rejects fields that are not filterable', () => {
+    assert.throws(
+      () => renderFilter({ op: 'eq', field: 'constructor' as any, value: 'x' }),
+      FilterValidationError
+    );
+  });
+});
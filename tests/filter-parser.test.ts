@@ -0,0 +1,91 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { parseQueryFilters } from '../app/lib/filter-parser';
+
+describe('parseQueryFilters', () => {
+  describe('prices', () => {
+    it('reads max, min and ranges', () => {
+      assert.deepEqual(parseQueryFilters('cookies under $50'), {
+        filters: { maxPrice: 50 },
+        cleanQuery: 'cookies',
+      });
+      assert.deepEqual(parseQueryFilters('coffee over 10 dollars').filters, { minPrice: 10 });
+      assert.deepEqual(parseQueryFilters('napkins between 5 and 20 dollars').filters, {
+        minPrice: 5,
+        maxPrice: 20,
+      });
+      assert.deepEqual(parseQueryFilters('cups $5-$20').filters, { minPrice: 5, maxPrice: 20 });
+    });
+
+    it('reads "around" as a band of 20% either side', () => {
+      assert.deepEqual(parseQueryFilters('tea around $20').filters, { minPrice: 16, maxPrice: 24 });
+    });
+
+    it('keeps decimals whole', () => {
+      assert.deepEqual(parseQueryFilters('sauce under 5.99').filters, { maxPrice: 5.99 });
+      assert.deepEqual(parseQueryFilters('sauce under $5.99.').filters, { maxPrice: 5.99 });
+    });
+
+    it('reads a price before words starting with a unit', () => {
+      assert.deepEqual(parseQueryFilters('crackers under 5 gluten free'), {
+        filters: { maxPrice: 5, attributes: ['gluten-free'] },
+        cleanQuery: 'crackers',
+      });
+      assert.deepEqual(parseQueryFilters('pasta under 20 low sodium'), {
+        filters: { maxPrice: 20 },
+        cleanQuery: 'pasta low sodium',
+      });
+      assert.deepEqual(parseQueryFilters('towels under 8 large').filters, { maxPrice: 8 });
+    });
+
+    it('ignores quantities', () => {
+      assert.deepEqual(parseQueryFilters('rice over 2.5 lb'), {
+        filters: {},
+        cleanQuery: 'rice over 2.5 lb',
+      });
+      assert.deepEqual(parseQueryFilters('under 5.5 lb flour'), {
+        filters: {},
+        cleanQuery: 'under 5.5 lb flour',
+      });
+      assert.deepEqual(parseQueryFilters('gloves over 50 ct').filters, { packSize: 50 });
+      assert.deepEqual(parseQueryFilters('bags under 5 g').filters, {});
+      assert.deepEqual(parseQueryFilters('juice under 2 l').filters, {});
+    });
+
+    it("doesn't read part of a longer number", () => {
+      assert.deepEqual(parseQueryFilters('under 5.999').filters, {});
+    });
+  });
+
+  describe('pack sizes', () => {
+    it('reads pack sizes and leaves them in the query', () => {
+      assert.deepEqual(parseQueryFilters('water 24 pack'), {
+        filters: { packSize: 24 },
+        cleanQuery: 'water 24 pack',
+      });
+      assert.deepEqual(parseQueryFilters('case of 12 soda').filters, { packSize: 12 });
+      assert.deepEqual(parseQueryFilters('12 pack under 20').filters, { packSize: 12, maxPrice: 20 });
+    });
+
+    it('reads foodservice can notation', () => {
+      assert.deepEqual(parseQueryFilters('tomatoes 6/#10').filters, { packSize: 6 });
+      assert.deepEqual(parseQueryFilters('beans 6/10 can').filters, { packSize: 6 });
+    });
+
+    it("doesn't read fractions as pack sizes", () => {
+      assert.deepEqual(parseQueryFilters('1/2 hotel pan').filters, {});
+      assert.deepEqual(parseQueryFilters('3/4 inch foil').filters, {});
+    });
+  });
+
+  it('reads stock, sale and dietary filters', () => {
+    assert.deepEqual(parseQueryFilters('organic vegan snacks in stock on sale'), {
+      filters: { inStock: true, onSale: true, attributes: ['organic', 'vegan'] },
+      cleanQuery: 'snacks',
+    });
+  });
+
+  it('keeps descriptive attributes in the query', () => {
+    assert.deepEqual(parseQueryFilters('frozen pizza'), { filters: {}, cleanQuery: 'frozen pizza' });
+  });
+});
@@ -0,0 +1,60 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import {
+  detectIdentifierType,
+  gtinForms,
+  isIdentifierType,
+  parseIdentifier,
+} from '../app/lib/identifiers';
+
+describe('gtinForms', () => {
+  it('pads to every GTIN length without dropping a non-zero digit', () => {
+    assert.deepEqual(gtinForms('00036000291452'), [
+      '00036000291452',
+      '0036000291452',
+      '036000291452',
+    ]);
+  });
+
+  it('keeps the length the code was typed at', () => {
+    assert.deepEqual(gtinForms('36000291452'), [
+      '00036000291452',
+      '0036000291452',
+      '036000291452',
+      '36000291452',
+    ]);
+  });
+});
+
+describe('isIdentifierType', () => {
+  it('accepts only the identifier types', () => {
+    assert.equal(isIdentifierType('gtin'), true);
+    assert.equal(isIdentifierType('constructor'), false);
+    assert.equal(isIdentifierType('toString'), false);
+  });
+});
+
+describe('parseIdentifier', () => {
+  it('reads a barcode with a valid check digit and looks it up in code fields too', () => {
+    const identifier = parseIdentifier('0-36000-29145-2');
+    assert.equal(identifier.type, 'upc');
+    assert.equal(identifier.normalized, '00036000291452');
+    assert.equal(identifier.checkDigitValid, true);
+    assert.deepEqual(identifier.fields, ['gtin', 'upc', 'sku', 'mpn']);
+    assert.ok(identifier.values.includes('036000291452'));
+    assert.ok(identifier.values.includes('0-36000-29145-2'));
+  });
+
+  it('treats an all-digit code with a wrong check digit as a SKU', () => {
+    assert.equal(detectIdentifierType('036000291453'), 'sku');
+    const identifier = parseIdentifier('036000291453');
+    assert.equal(identifier.checkDigitValid, false);
+    assert.deepEqual(identifier.fields, ['sku', 'mpn']);
+  });
+
+  it('reads PROD-style ids as product ids', () => {
+    const identifier = parseIdentifier('prod-12345');
+    assert.equal(identifier.type, 'productId');
+    assert.deepEqual(identifier.values, ['PROD12345', 'PROD-12345', 'prod-12345']);
+  });
+});
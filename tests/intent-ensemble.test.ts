@@ -0,0 +1,68 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { combineIntentAnalyses } from '../app/lib/intent-ensemble';
+import { parseQueryFilters } from '../app/lib/filter-parser';
+import { SearchAnalyzer } from '../app/lib/search-analyzer';
+import { SearchStrategy } from '../app/lib/search-types';
+import type { IntentAnalysis } from '../app/lib/search-types';
+
+const analyzer = new SearchAnalyzer();
+
+function combine(query: string, llm: IntentAnalysis | null = null) {
+  return combineIntentAnalyses(
+    query,
+    analyzer.analyze(query),
+    parseQueryFilters(query),
+    llm,
+    analyzer
+  );
+}
+
+describe('combineIntentAnalyses', () => {
+  describe('without the LLM', () => {
+    it('searches plain words rather than looking them up as codes', () => {
+      for (const query of ['cocoa', 'cookies', 'napkins']) {
+        const { analysis } = combine(query);
+        assert.equal(analysis.strategy, SearchStrategy.KEYWORD, query);
+        assert.equal(analysis.identifierType, null, query);
+      }
+    });
+
+    it('looks up codes containing a digit', () => {
+      const { analysis, cleanQuery } = combine('SKU-12345');
+      assert.equal(analysis.strategy, SearchStrategy.EXACT_MATCH);
+      assert.equal(analysis.identifierType, 'sku');
+      assert.equal(cleanQuery, 'SKU-12345');
+    });
+
+    it('uses the parser for filters', () => {
+      const { extractedFilters, cleanQuery, sources } = combine('vegan cookies under $5');
+      assert.deepEqual(extractedFilters, { maxPrice: 5, attributes: ['vegan'] });
+      assert.equal(cleanQuery, 'cookies');
+      assert.equal(sources.filters, 'local');
+    });
+  });
+
+  describe('with the LLM', () => {
+    const llm: IntentAnalysis = {
+      strategy: SearchStrategy.EXACT_MATCH,
+      confidence: 0.9,
+      context: 'Chocolate bars from Hershey',
+      suggestedTerms: [],
+      filters: { brand: 'Hershey' },
+      cleanQuery: 'chocolate bars',
+    };
+
+    it("doesn't let the model call a product name exact", () => {
+      const { analysis, sources } = combine('hershey chocolate bars', llm);
+      assert.notEqual(analysis.strategy, SearchStrategy.EXACT_MATCH);
+      assert.equal(sources.strategy, 'local');
+    });
+
+    it('adds filters the parser missed', () => {
+      const { extractedFilters, sources } = combine('hershey chocolate bars under $10', llm);
+      assert.deepEqual(extractedFilters, { brand: 'Hershey', maxPrice: 10 });
+      assert.equal(sources.filters, 'combined');
+    });
+  });
+});
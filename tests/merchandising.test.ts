@@ -0,0 +1,93 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import type { Client } from 'typesense';
+import {
+  MemoryMerchandisingStore,
+  type MerchandisingRule,
+  deleteRule,
+  pinnedRetrievalLimit,
+  placePins,
+  rulesVersion,
+  saveRule,
+} from '../app/lib/merchandising';
+import type { Product } from '../app/lib/search-types';
+
+function rule(overrides: Partial<MerchandisingRule> = {}): MerchandisingRule {
+  return {
+    id: 'cups',
+    name: 'Cups',
+    collection: 'products',
+    enabled: true,
+    trigger: { type: 'query_contains', value: 'cups' },
+    pins: [],
+    hide: [],
+    boosts: [],
+    updatedAt: '2026-01-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+const products = (skus: string[]) => skus.map((sku) => ({ sku, name: sku }) as Product);
+const skus = (results: Product[]) => results.map((product) => product.sku);
+
+describe('placePins', () => {
+  const pinned = [rule({ pins: [{ sku: 'P', position: 2 }] })];
+  // Ranked results from the first, as retrieved for pinnedRetrievalLimit
+  const ranked = products(['A', 'B', 'C', 'D', 'P', 'E']);
+
+  it('retrieves through the page plus one result per pin', () => {
+    assert.equal(pinnedRetrievalLimit(pinned, 2, 3), 7);
+    assert.equal(pinnedRetrievalLimit([rule({ boosts: [] })], 2, 3), null);
+  });
+
+  it('moves the result a pin displaces onto the next page', async () => {
+    const first = await placePins(ranked, pinned, { page: 1, limit: 3 });
+    const second = await placePins(ranked, pinned, { page: 2, limit: 3 });
+    assert.deepEqual(skus(first), ['A', 'P', 'B']);
+    assert.deepEqual(skus(second), ['C', 'D', 'E']);
+  });
+
+  it('returns results as is when no rule pins anything', async () => {
+    const page = products(['D', 'E', 'F']);
+    assert.equal(await placePins(page, [rule()], { page: 2, limit: 3 }), page);
+  });
+});
+
+describe('rulesVersion', () => {
+  it('changes when a scheduled rule starts', () => {
+    const rules = [rule({ startsAt: '2026-06-01T00:00:00.000Z' })];
+    assert.notEqual(
+      rulesVersion(rules, Date.parse('2026-05-31T00:00:00Z')),
+      rulesVersion(rules, Date.parse('2026-06-02T00:00:00Z'))
+    );
+  });
+});
+
+describe('saveRule', () => {
+  // Boost-only rules have no override, so syncing only deletes one
+  const client = {
+    collections: () => ({ overrides: () => ({ delete: async () => ({}) }) }),
+  } as unknown as Client;
+  const boostRule = (name: string) => ({
+    name,
+    collection: 'products',
+    trigger: { type: 'query_contains', value: name },
+    boosts: [{ field: 'brand', value: 'solo', weight: 2 }],
+  });
+
+  it('keeps every rule when edits run concurrently', async () => {
+    const store = new MemoryMerchandisingStore();
+    await Promise.all([
+      saveRule(boostRule('cups'), client, store),
+      saveRule(boostRule('lids'), client, store),
+      saveRule(boostRule('plates'), client, store),
+    ]);
+    await Promise.all([
+      deleteRule('lids', client, store),
+      saveRule(boostRule('napkins'), client, store),
+    ]);
+
+    const ids = (await store.load()).map((r) => r.id).sort();
+    assert.deepEqual(ids, ['cups', 'napkins', 'plates']);
+  });
+});
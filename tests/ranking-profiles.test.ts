@@ -0,0 +1,55 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import {
+  type RankingProfile,
+  applyRankingSignals,
+  sortsByRelevance,
+} from '../app/lib/ranking-profiles';
+import type { Product } from '../app/lib/search-types';
+
+function profile(sortBy: string): RankingProfile {
+  return {
+    name: sortBy,
+    sortBy,
+    queryBy: { name: 1 },
+    parameters: {
+      salesBoost: 0,
+      relevanceThreshold: 0,
+      stockPriority: false,
+      priceConsideration: 0,
+      brandBoost: 1,
+      recencyFactor: 0,
+    },
+  };
+}
+
+const relevance = profile('_text_match:desc,sales_count:desc');
+const bestsellers = profile('is_in_stock:desc,sales_count:desc,_text_match:desc');
+
+// In Typesense order: the best-seller first, though it scores lowest
+const products = [
+  { sku: 'A', name: 'Cups', brand: 'Solo', score: 1 },
+  { sku: 'B', name: 'Cups', brand: 'Dart', score: 3 },
+  { sku: 'C', name: 'Cups', brand: 'Solo', score: 2 },
+] as Product[];
+
+describe('applyRankingSignals', () => {
+  it('re-scores and re-sorts profiles that sort by relevance', () => {
+    const ranked = applyRankingSignals(products, 'dart cups', () => relevance);
+    assert.deepEqual(
+      ranked.map((product) => [product.sku, product.score]),
+      [['B', 6], ['C', 2], ['A', 1]]
+    );
+  });
+
+  it("keeps other profiles' sort_by order", () => {
+    assert.equal(applyRankingSignals(products, 'dart cups', () => bestsellers), products);
+  });
+});
+
+describe('sortsByRelevance', () => {
+  it('looks at the first sort field', () => {
+    assert.equal(sortsByRelevance(relevance), true);
+    assert.equal(sortsByRelevance(bestsellers), false);
+  });
+});
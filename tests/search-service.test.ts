@@ -0,0 +1,409 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import type { Client } from 'typesense';
+import type { EmbeddingProvider } from '../app/lib/embedding-provider';
+import { MemoryMerchandisingStore, validateRule } from '../app/lib/merchandising';
+import { SearchService } from '../app/lib/search-service';
+import type { SearchLogger } from '../app/lib/search-service';
+import { SearchStrategy } from '../app/lib/search-types';
+import type { SearchOptions } from '../app/lib/search-types';
+
+type Search = Record<string, any>;
+type Answer = { hits?: any[]; found?: number; error?: string } | undefined;
+
+const COLLECTION = 'us_copy';
+
+// A Typesense client that records every search. Retrievals are answered by
+// `respond`; facet and vocabulary lookups come back empty and the best-seller
+// names the spelling dictionary is built from are `names`.
+function fakeTypesense(
+  respond: (search: Search) => Answer = () => undefined,
+  names: string[] = []
+) {
+  const searches: Search[] = [];
+
+  const answer = (search: Search) => {
+    if (search.include_fields === 'name') {
+      const hits = search.page === 1 ? names.map((name) => ({ document: { name } })) : [];
+      return { hits, found: names.length };
+    }
+    if (search.per_page === 0) {
+      return { hits: [], found: 0, facet_counts: [] };
+    }
+    const result = respond(search) || {};
+    if (result.error) return { error: result.error };
+    const hits = result.hits || [];
+    return { hits, found: result.found ?? hits.length };
+  };
+
+  const client = {
+    multiSearch: {
+      perform: async ({ searches: batch }: { searches: Search[] }) => {
+        searches.push(...batch);
+        return { results: batch.map(answer) };
+      },
+    },
+    collections: (name?: string) => ({
+      retrieve: async () =>
+        name
+          ? { name, fields: [{ name: 'embedding', type: 'float[]', num_dim: 3 }] }
+          : [
+              { name: 'us_copy', num_documents: 2 },
+              { name: 'ca_copy', num_documents: 2 },
+              { name: 'us_staging', num_documents: 2 },
+            ],
+    }),
+  };
+
+  return { client: client as unknown as Client, searches };
+}
+
+const embeddings: EmbeddingProvider = {
+  name: 'fake',
+  model: 'fake-3',
+  dimensions: 3,
+  embed: async () => [0.1, 0.2, 0.3],
+};
+
+function hit(sku: string, textMatch = 100, document: Record<string, unknown> = {}) {
+  return { document: { sku, name: `Product ${sku}`, ...document }, text_match: textMatch };
+}
+
+function createService(
+  client: Client,
+  merchandising = new MemoryMerchandisingStore(),
+  provider = embeddings
+) {
+  const errors: string[] = [];
+  const logger: SearchLogger = {
+    log: () => {},
+    warn: () => {},
+    error: (message: string) => errors.push(message),
+  };
+  const service = new SearchService({
+    typesense: client,
+    intent: null,
+    embeddings: provider,
+    responseCache: null,
+    merchandising,
+    logger,
+  });
+  const search = async (options: Partial<SearchOptions> & { query: string }) =>
+    (await service.search({ collection: COLLECTION, ...options })).response;
+  return { search, errors };
+}
+
+const skus = (response: { results: Array<{ sku: string }> }) =>
+  response.results.map((product) => product.sku);
+
+describe('SearchService', () => {
+  describe('keyword', () => {
+    it("runs the ranking profile's keyword search", async () => {
+      const typesense = fakeTypesense(() => ({ hits: [hit('A', 200), hit('B', 100)] }));
+      const { search, errors } = createService(typesense.client);
+
+      const response = await search({ query: 'paper cups' });
+
+      assert.equal(response.strategy, SearchStrategy.KEYWORD);
+      assert.deepEqual(skus(response), ['A', 'B']);
+      assert.equal(response.found, 2);
+      const retrieval = typesense.searches.find((s) => s.sort_by?.startsWith('_text_match'));
+      assert.equal(retrieval?.q, 'paper cups');
+      assert.equal(retrieval?.collection, COLLECTION);
+      assert.deepEqual(errors, []);
+    });
+  });
+
+  describe('semantic', () => {
+    const query = 'something to keep soup hot at a party';
+
+    it('sends one hybrid search with the query vector', async () => {
+      const typesense = fakeTypesense((s) => (s.vector_query ? { hits: [hit('V')] } : undefined));
+      const { search } = createService(typesense.client);
+
+      const response = await search({ query });
+
+      assert.equal(response.strategy, SearchStrategy.SEMANTIC);
+      assert.deepEqual(skus(response), ['V']);
+      const hybrid = typesense.searches.find((s) => s.vector_query);
+      assert.match(hybrid!.vector_query, /^embedding:\(\[0\.100000,0\.200000,0\.300000\], k:\d+, alpha:/);
+    });
+
+    it('fuses separate vector and keyword searches when the hybrid search fails', async () => {
+      const typesense = fakeTypesense((s) => {
+        if (s.vector_query?.includes('alpha:')) return { error: 'hybrid unavailable' };
+        if (s.vector_query) return { hits: [{ ...hit('V'), vector_distance: 0.1 }] };
+        return { hits: [hit('K')] };
+      });
+      const { search, errors } = createService(typesense.client);
+
+      const response = await search({ query });
+
+      assert.deepEqual(skus(response).sort(), ['K', 'V']);
+      assert.match(errors[0], /^Hybrid search failed/);
+    });
+  });
+
+  describe('exact', () => {
+    it('looks an identifier up in the fields its type lives in', async () => {
+      const typesense = fakeTypesense((s) =>
+        s.filter_by?.includes('product_id:=') ? { hits: [hit('PROD-12345')] } : undefined
+      );
+      const { search } = createService(typesense.client);
+
+      const response = await search({ query: 'PROD-12345' });
+
+      assert.equal(response.strategy, SearchStrategy.EXACT_MATCH);
+      assert.deepEqual(skus(response), ['PROD-12345']);
+      assert.equal(response.results[0].identifierMatch, 'exact');
+      assert.equal(response.identifierLookup?.type, 'productId');
+      assert.equal(response.identifierLookup?.match, 'exact');
+    });
+
+    it('falls back to seller codes that start with the query', async () => {
+      const typesense = fakeTypesense((s) =>
+        s.q === 'ABC123' && s.prefix ? { hits: [hit('ABC-1234')] } : undefined
+      );
+      const { search } = createService(typesense.client);
+
+      const response = await search({ query: 'ABC-123' });
+
+      assert.deepEqual(skus(response), ['ABC-1234']);
+      assert.equal(response.identifierLookup?.match, 'prefix');
+    });
+
+    it('ends in a lenient text search', async () => {
+      const typesense = fakeTypesense((s) =>
+        s.infix === 'always' ? { hits: [hit('ABC-999')] } : undefined
+      );
+      const { search } = createService(typesense.client);
+
+      const response = await search({ query: 'ABC-123' });
+
+      assert.deepEqual(skus(response), ['ABC-999']);
+      assert.equal(response.identifierLookup?.match, 'fallback');
+    });
+  });
+
+  describe('spelling', () => {
+    // "dinner" is one edit from "diner" but missing from the sampled names
+    const names = ['Retro Diner Plates', 'Paper Plates'];
+
+    it('keeps a correct word the vocabulary lacks when the query finds results', async () => {
+      const typesense = fakeTypesense(
+        (s) => (s.q === 'dinner plates' ? { hits: [hit('A'), hit('B'), hit('C')] } : undefined),
+        names
+      );
+      const { search } = createService(typesense.client);
+
+      const response = await search({ query: 'dinner plates' });
+
+      assert.deepEqual(skus(response), ['A', 'B', 'C']);
+      assert.equal(response.cleanQuery, 'dinner plates');
+      assert.equal(response.didYouMean?.suggestion, 'diner plates');
+      assert.equal(response.didYouMean?.applied, false);
+    });
+
+    it('searches a confident correction when the query finds next to nothing', async () => {
+      const typesense = fakeTypesense(
+        (s) => (s.q === 'diner plates' ? { hits: [hit('A'), hit('B')] } : undefined),
+        names
+      );
+      const { search } = createService(typesense.client);
+
+      const response = await search({ query: 'dinner plates' });
+
+      assert.deepEqual(skus(response), ['A', 'B']);
+      assert.equal(response.cleanQuery, 'diner plates');
+      assert.equal(response.didYouMean?.applied, true);
+      assert.equal(response.recovery, undefined);
+    });
+
+    it('never replaces the query with spellCorrect: false', async () => {
+      const typesense = fakeTypesense(
+        (s) => (s.q === 'diner plates' ? { hits: [hit('A')] } : undefined),
+        names
+      );
+      const { search } = createService(typesense.client);
+
+      const response = await search({ query: 'dinner plates', spellCorrect: false });
+
+      assert.equal(response.cleanQuery, 'dinner plates');
+      assert.equal(response.didYouMean?.applied, false);
+    });
+  });
+
+  describe('zero-result recovery', () => {
+    it('relaxes an extracted price filter', async () => {
+      const typesense = fakeTypesense((s) =>
+        s.filter_by?.includes('price') ? undefined : { hits: [hit('A', 100, { price: 7 })] }
+      );
+      const { search } = createService(typesense.client);
+
+      const response = await search({ query: 'paper cups under $5' });
+
+      assert.deepEqual(skus(response), ['A']);
+      assert.equal(response.recovery?.step, 'relax_filters');
+      assert.deepEqual(response.recovery?.relaxedFilters, ['price']);
+    });
+
+    it('lets Typesense drop query words', async () => {
+      const typesense = fakeTypesense((s) =>
+        s.drop_tokens_threshold > 0 ? { hits: [hit('A')] } : undefined
+      );
+      const { search } = createService(typesense.client);
+
+      const response = await search({ query: 'paper cups lids' });
+
+      assert.deepEqual(skus(response), ['A']);
+      assert.equal(response.recovery?.step, 'drop_tokens');
+    });
+  });
+
+  describe('errors', () => {
+    it('fails a keyword search Typesense rejects', async () => {
+      const typesense = fakeTypesense(() => ({ error: 'Could not find a field named `colour`' }));
+      const { search, errors } = createService(typesense.client);
+
+      await assert.rejects(search({ query: 'paper cups' }), /colour/);
+      assert.match(errors[0], /^Keyword search error/);
+    });
+
+    it('logs identifier searches Typesense rejects', async () => {
+      const typesense = fakeTypesense(() => ({ error: 'Bad filter' }));
+      const { search, errors } = createService(typesense.client);
+
+      const response = await search({ query: 'ABC-123' });
+
+      assert.equal(response.identifierLookup?.match, 'none');
+      assert.deepEqual(errors, ['Exact match search error:', 'Fallback search error:']);
+      assert.deepEqual(response.degraded, [
+        'Fallback search failed: Bad filter',
+        'Identifier lookup failed: Bad filter',
+      ]);
+    });
+
+    it('reports skipped query embeddings on every search, not just the first', async () => {
+      const typesense = fakeTypesense(() => ({ hits: [hit('K')] }));
+      const { search, errors } = createService(typesense.client, undefined, {
+        ...embeddings,
+        dimensions: 4,
+      });
+      const query = 'something to keep soup hot at a party';
+
+      const first = await search({ query });
+      const second = await search({ query });
+
+      assert.equal(errors.length, 1);
+      for (const response of [first, second]) {
+        assert.deepEqual(skus(response), ['K']);
+        assert.deepEqual(response.degraded, [
+          'No query embedding for us_copy; searched by keyword only',
+        ]);
+      }
+    });
+  });
+
+  describe('federated', () => {
+    it('searches every collection the injected client lists', async () => {
+      const typesense = fakeTypesense((s) => ({ hits: [hit(s.collection)] }));
+      const { search } = createService(typesense.client);
+
+      const response = await search({ query: 'paper cups', collection: 'all' });
+
+      assert.deepEqual(response.collections, ['us_copy', 'ca_copy']);
+      assert.deepEqual(skus(response).sort(), ['ca_copy', 'us_copy']);
+      assert.ok(response.results.every((product) => product.source_collection));
+    });
+  });
+
+  describe('paging', () => {
+    // More matches than the 250 a windowed retrieval can reach
+    const many = (s: Search) => ({ hits: [hit(`${s.collection}-${s.page}`)], found: 1000 });
+    const pages = async (
+      search: ReturnType<typeof createService>['search'],
+      options: Partial<SearchOptions> & { query: string }
+    ) => {
+      const tenth = await search({ ...options, page: 10, limit: 24 });
+      const eleventh = await search({ ...options, page: 11, limit: 24 });
+      return { tenth, eleventh };
+    };
+
+    it('pages a single collection through everything found', async () => {
+      const { search } = createService(fakeTypesense(many).client);
+
+      const { eleventh } = await pages(search, { query: 'paper cups' });
+
+      assert.equal(eleventh.totalPages, 42);
+      assert.ok(eleventh.nextCursor);
+    });
+
+    it('stops federated paging at the retrieval window', async () => {
+      const { search } = createService(fakeTypesense(many).client);
+
+      const { tenth, eleventh } = await pages(search, { query: 'paper cups', collection: 'all' });
+
+      assert.equal(tenth.found, 2000);
+      assert.equal(tenth.totalPages, 11);
+      assert.ok(tenth.nextCursor);
+      assert.equal(eleventh.nextCursor, null);
+    });
+
+    it('stops pinned paging at the retrieval window', async () => {
+      const store = new MemoryMerchandisingStore();
+      await store.save([
+        validateRule({
+          name: 'Cup pin',
+          collection: COLLECTION,
+          trigger: { type: 'query_contains', value: 'cups' },
+          pins: [{ sku: 'P', position: 1 }],
+        }),
+      ]);
+      const { search } = createService(fakeTypesense(many).client, store);
+
+      const { tenth, eleventh } = await pages(search, { query: 'paper cups' });
+
+      assert.equal(tenth.totalPages, 11);
+      assert.ok(tenth.nextCursor);
+      assert.equal(eleventh.nextCursor, null);
+    });
+
+    it('stops fused semantic paging at the retrieval window', async () => {
+      const typesense = fakeTypesense((s) =>
+        s.vector_query?.includes('alpha:') ? { error: 'hybrid unavailable' } : many(s)
+      );
+      const { search } = createService(typesense.client);
+
+      const { tenth, eleventh } = await pages(search, {
+        query: 'something to keep soup hot at a party',
+      });
+
+      assert.equal(tenth.totalPages, 11);
+      assert.ok(tenth.nextCursor);
+      assert.equal(eleventh.nextCursor, null);
+    });
+  });
+
+  describe('merchandising', () => {
+    it("pins a product from the injected store, fetched through the service's client", async () => {
+      const store = new MemoryMerchandisingStore();
+      await store.save([
+        validateRule({
+          name: 'Cup pin',
+          collection: COLLECTION,
+          trigger: { type: 'query_contains', value: 'cups' },
+          pins: [{ sku: 'P', position: 1 }],
+        }),
+      ]);
+      const typesense = fakeTypesense((s) =>
+        s.filter_by?.startsWith('sku:=') ? { hits: [hit('P')] } : { hits: [hit('A'), hit('B', 50)] }
+      );
+      const { search } = createService(typesense.client, store);
+
+      const response = await search({ query: 'paper cups' });
+
+      assert.deepEqual(skus(response), ['P', 'A', 'B']);
+      assert.deepEqual(response.merchandising, ['cup-pin']);
+    });
+  });
+});
@@ -0,0 +1,31 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { parseSynonymCsv, SynonymValidationError } from '../app/lib/synonyms';
+
+describe('parseSynonymCsv', () => {
+  it('derives ids from the root or first term', () => {
+    const rules = parseSynonymCsv(
+      'id,type,root,synonyms\n,multi-way,,clamshell|takeout box\n,one-way,hotel pan,steam table pan'
+    );
+    assert.deepEqual(
+      rules.map((rule) => rule.id),
+      ['clamshell-synonyms', 'hotel-pan-synonyms']
+    );
+  });
+
+  it('rejects rows whose derived ids collide', () => {
+    assert.throws(
+      () => parseSynonymCsv('id,type,root,synonyms\n,multi-way,,Soda|pop\n,multi-way,,soda!|cola'),
+      (error: Error) =>
+        error instanceof SynonymValidationError &&
+        /^Line 3: id "soda-synonyms" is already used on line 2/.test(error.message)
+    );
+  });
+
+  it('rejects a repeated explicit id', () => {
+    assert.throws(
+      () => parseSynonymCsv('cups,multi-way,,cup|mug\ncups,multi-way,,tumbler|glass'),
+      /^SynonymValidationError: Line 2: id "cups" is already used on line 1$/
+    );
+  });
+});